@@ -0,0 +1,3 @@
+-- Sender rules: approved_senders.email now holds an exact address or a glob
+-- pattern (e.g. '*@stripe.com', '*@*.github.com'). Deny rules override allows.
+ALTER TABLE approved_senders ADD COLUMN action TEXT NOT NULL DEFAULT 'allow' CHECK(action IN ('allow', 'deny'));
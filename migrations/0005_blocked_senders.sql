@@ -0,0 +1,10 @@
+-- Blocklist: mail from these senders is rejected at SMTP time and never stored.
+-- pattern is either an exact address or a bare domain (which also covers subdomains).
+CREATE TABLE blocked_senders (
+  pattern TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK(kind IN ('address', 'domain')),
+  reason TEXT,
+  reject_count INTEGER NOT NULL DEFAULT 0,
+  last_rejected_at INTEGER,
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,6 @@
+-- Parsed Authentication-Results verdicts for inbound mail (null for outbound
+-- or when the header is missing). Values are RFC 8601 results: pass, fail,
+-- softfail, neutral, none, temperror, permerror, policy.
+ALTER TABLE messages ADD COLUMN auth_spf TEXT;
+ALTER TABLE messages ADD COLUMN auth_dkim TEXT;
+ALTER TABLE messages ADD COLUMN auth_dmarc TEXT;
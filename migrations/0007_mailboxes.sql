@@ -0,0 +1,13 @@
+-- Mailboxes: addresses routed to this worker (support@, billing@, agent@ ...).
+-- Plus-addressed recipients (agent+project@) resolve to their base mailbox and
+-- the tag is kept on the message.
+CREATE TABLE mailboxes (
+  id TEXT PRIMARY KEY,
+  address TEXT NOT NULL UNIQUE,
+  name TEXT,
+  created_at INTEGER NOT NULL
+);
+
+ALTER TABLE messages ADD COLUMN mailbox_id TEXT REFERENCES mailboxes(id);
+ALTER TABLE messages ADD COLUMN mailbox_tag TEXT;
+CREATE INDEX idx_messages_mailbox ON messages(mailbox_id);
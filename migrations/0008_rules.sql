@@ -0,0 +1,15 @@
+-- Inbound rules: conditions/actions are JSON arrays evaluated in priority order
+-- after an inbound message is threaded and stored.
+CREATE TABLE rules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  priority INTEGER NOT NULL DEFAULT 0,
+  match_mode TEXT NOT NULL DEFAULT 'all' CHECK(match_mode IN ('all', 'any')),
+  conditions TEXT NOT NULL,
+  actions TEXT NOT NULL,
+  stop_processing INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE INDEX idx_rules_priority ON rules(enabled, priority);
@@ -0,0 +1,14 @@
+-- Idempotent inbound ingestion: one row per Message-ID (or raw content hash
+-- when Message-ID is missing). Null for outbound messages.
+ALTER TABLE messages ADD COLUMN dedupe_key TEXT;
+
+-- Backfill existing inbound messages, keeping only the first copy of each
+-- Message-ID so earlier duplicates don't violate the unique index
+UPDATE messages SET dedupe_key = 'mid:' || message_id
+WHERE rowid IN (
+  SELECT MIN(rowid) FROM messages
+  WHERE direction = 'inbound' AND message_id IS NOT NULL
+  GROUP BY message_id
+);
+
+CREATE UNIQUE INDEX idx_messages_dedupe_key ON messages(dedupe_key);
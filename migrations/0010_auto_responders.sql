@@ -0,0 +1,24 @@
+-- Vacation / auto-responders. mailbox_id null = all mailboxes.
+-- audience: 'unknown' answers only senders that aren't approved, 'all' answers everyone.
+CREATE TABLE auto_responders (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  mailbox_id TEXT REFERENCES mailboxes(id),
+  audience TEXT NOT NULL DEFAULT 'all' CHECK(audience IN ('unknown', 'all')),
+  subject TEXT,
+  body_text TEXT NOT NULL,
+  starts_at INTEGER,
+  ends_at INTEGER,
+  throttle_days INTEGER NOT NULL DEFAULT 7,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Once-per-sender-per-N-days throttle
+CREATE TABLE auto_responder_log (
+  responder_id TEXT NOT NULL REFERENCES auto_responders(id),
+  sender TEXT NOT NULL,
+  last_sent_at INTEGER NOT NULL,
+  PRIMARY KEY (responder_id, sender)
+);
@@ -0,0 +1,5 @@
+-- Inbound category detected from list / bulk / ESP headers:
+-- 'personal', 'list', 'notification' or 'transactional' (null for outbound and
+-- messages stored before detection existed)
+ALTER TABLE messages ADD COLUMN category TEXT;
+CREATE INDEX idx_messages_category ON messages(category);
@@ -0,0 +1,3 @@
+-- Original RFC 822 source of inbound messages, stored in the ATTACHMENTS
+-- bucket under raw/<message id>.eml
+ALTER TABLE messages ADD COLUMN raw_r2_key TEXT;
@@ -0,0 +1,7 @@
+-- Sanitized HTML body (scripts, trackers and remote images stripped,
+-- cid: images rewritten to /api/attachments/:id)
+ALTER TABLE messages ADD COLUMN body_html_sanitized TEXT;
+
+-- MIME part metadata needed to resolve inline cid: references
+ALTER TABLE attachments ADD COLUMN disposition TEXT;
+ALTER TABLE attachments ADD COLUMN content_id TEXT;
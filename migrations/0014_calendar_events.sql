@@ -0,0 +1,25 @@
+-- Calendar invites (text/calendar parts) found in inbound messages.
+-- One row per VEVENT; attendees is a JSON array of {email, name, role, partstat, rsvp}.
+-- response/responded_at record the RSVP we sent back (accepted | declined | tentative).
+CREATE TABLE calendar_events (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL REFERENCES messages(id),
+  uid TEXT NOT NULL,
+  method TEXT,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  recurrence_id TEXT,
+  summary TEXT,
+  description TEXT,
+  location TEXT,
+  organizer TEXT,
+  start_at INTEGER,
+  end_at INTEGER,
+  all_day INTEGER NOT NULL DEFAULT 0,
+  attendees TEXT NOT NULL DEFAULT '[]',
+  response TEXT,
+  responded_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_calendar_events_message ON calendar_events(message_id);
+CREATE INDEX idx_calendar_events_uid ON calendar_events(uid);
@@ -0,0 +1,3 @@
+-- Drafts can carry an HTML or Markdown body alongside body_text
+ALTER TABLE drafts ADD COLUMN body_html TEXT;
+ALTER TABLE drafts ADD COLUMN body_markdown TEXT;
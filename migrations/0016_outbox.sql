@@ -0,0 +1,21 @@
+-- Scheduled sends. params holds the JSON send parameters (inline attachment
+-- content is kept in R2 under outbox/<id>/); scheduled drafts leave params
+-- null and are read from the draft when they go out, so later edits apply.
+CREATE TABLE outbox (
+  id TEXT PRIMARY KEY,
+  draft_id TEXT,
+  params TEXT,
+  "to" TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  send_at INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK(status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  message_id TEXT REFERENCES messages(id),
+  sent_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_outbox_due ON outbox(status, send_at);
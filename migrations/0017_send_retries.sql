@@ -0,0 +1,12 @@
+-- Outbound delivery tracking. Messages are stored before the provider is
+-- called; status moves 'sending' → 'sent', or → 'retrying' (transient
+-- provider error, retried with backoff) → ... → 'failed'.
+ALTER TABLE messages ADD COLUMN send_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE messages ADD COLUMN last_error TEXT;
+ALTER TABLE messages ADD COLUMN next_attempt_at INTEGER;
+
+-- Provider request (without attachment content) kept until the message is
+-- sent, so a retry can replay it
+ALTER TABLE messages ADD COLUMN send_params TEXT;
+
+CREATE INDEX idx_messages_retry ON messages(status, next_attempt_at);
@@ -0,0 +1,13 @@
+-- Reusable email templates. subject and bodies may contain {{variables}};
+-- attachment_ids is a JSON array of attachments sent with every use.
+CREATE TABLE templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  subject TEXT NOT NULL,
+  body_text TEXT,
+  body_html TEXT,
+  body_markdown TEXT,
+  attachment_ids TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
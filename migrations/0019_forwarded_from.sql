@@ -0,0 +1,2 @@
+-- Outbound forwards link back to the message they forward
+ALTER TABLE messages ADD COLUMN forwarded_from TEXT REFERENCES messages(id);
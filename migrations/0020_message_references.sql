@@ -0,0 +1,11 @@
+-- message_id now always holds the RFC 5322 Message-ID, for outbound mail too
+-- (we generate it); the provider's own id (Resend email id, ...) moves to
+-- provider_message_id. "references" is the full References chain.
+ALTER TABLE messages ADD COLUMN provider_message_id TEXT;
+ALTER TABLE messages ADD COLUMN "references" TEXT;
+
+UPDATE messages
+SET provider_message_id = message_id, message_id = NULL
+WHERE direction = 'outbound' AND message_id IS NOT NULL AND message_id NOT LIKE '<%>';
+
+CREATE INDEX idx_messages_provider_message_id ON messages(provider_message_id);
@@ -0,0 +1,5 @@
+-- Outbound approval: with OUTBOUND_APPROVAL_POLICY set, messages are stored
+-- as 'pending_outbound' (keeping send_params) until approved over the REST
+-- API, then sent; rejected ones end as 'rejected'. The policy's reason for
+-- holding the message is kept here.
+ALTER TABLE messages ADD COLUMN approval_reason TEXT;
@@ -0,0 +1,10 @@
+-- Recipient suppression list: outbound mail to these addresses is refused.
+-- Filled from provider bounce/complaint webhooks and inbound DSNs, or by hand.
+CREATE TABLE suppressions (
+  address TEXT PRIMARY KEY,
+  reason TEXT NOT NULL CHECK(reason IN ('bounce', 'complaint', 'manual')),
+  detail TEXT,
+  -- Message whose bounce or complaint added the address
+  message_id TEXT,
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,26 @@
+-- Inbound delivery reports: RFC 3464 DSNs (bounces, delays) and ARF feedback
+-- reports (complaints), one row per reported recipient. Reports are kept
+-- here instead of in messages so they stay out of the inbox and pending list.
+CREATE TABLE delivery_reports (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK(kind IN ('dsn', 'arf')),
+  -- Outbound message the report is about, when its Message-ID matched
+  message_id TEXT,
+  original_message_id TEXT,
+  recipient TEXT,
+  -- DSN Action (failed, delayed, delivered, ...) or ARF Feedback-Type
+  action TEXT NOT NULL,
+  -- DSN Status code, e.g. 5.1.1
+  status_code TEXT,
+  diagnostic TEXT,
+  -- Sender of the report (MAILER-DAEMON, feedback loop address)
+  reporter TEXT NOT NULL,
+  dedupe_key TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_delivery_reports_message ON delivery_reports(message_id);
+CREATE INDEX idx_delivery_reports_dedupe ON delivery_reports(dedupe_key);
+
+-- Diagnostic for the latest delivery status (DSN status and diagnostic code)
+ALTER TABLE messages ADD COLUMN status_detail TEXT;
@@ -0,0 +1,25 @@
+-- Scheduled sends whose message was held for approval or is waiting on a
+-- provider retry get their own outbox states instead of being reported as
+-- sent. SQLite can't alter a CHECK constraint, so the table is rebuilt.
+CREATE TABLE outbox_new (
+  id TEXT PRIMARY KEY,
+  draft_id TEXT,
+  params TEXT,
+  "to" TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  send_at INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK(status IN ('queued', 'sending', 'pending_outbound', 'retrying', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  message_id TEXT REFERENCES messages(id),
+  sent_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+INSERT INTO outbox_new SELECT * FROM outbox;
+DROP TABLE outbox;
+ALTER TABLE outbox_new RENAME TO outbox;
+
+CREATE INDEX idx_outbox_due ON outbox(status, send_at);
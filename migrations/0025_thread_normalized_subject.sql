@@ -0,0 +1,7 @@
+-- Subject with reply/forward prefixes stripped, whitespace collapsed and
+-- lowercased, for the subject/participant threading fallback. Older threads
+-- are filled in by the fallback itself as they come up (the prefix rules
+-- can't be expressed in SQL).
+ALTER TABLE threads ADD COLUMN normalized_subject TEXT;
+
+CREATE INDEX idx_threads_normalized_subject ON threads(normalized_subject, last_message_at);
@@ -0,0 +1,9 @@
+-- Recipients outbound mail may go to without approval under
+-- OUTBOUND_APPROVAL_POLICY=unknown. Kept apart from approved_senders, which
+-- the agent can edit, and only writable with the approver key.
+CREATE TABLE outbound_allowlist (
+  -- Lowercased glob over the full address (same syntax as sender rules)
+  pattern TEXT PRIMARY KEY,
+  note TEXT,
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,19 @@
+-- Inbound dedupe keys now end in "|<envelope recipient>", so the same message
+-- sent to two of our addresses is stored once per address. The recipient
+-- isn't stored, but ingestion routes on it first: a row in a mailbox was
+-- received on that mailbox's address (with its plus tag). Rows outside any
+-- mailbox keep the bare key, which ingestion still treats as a duplicate.
+UPDATE messages
+SET dedupe_key = dedupe_key || '|' || (
+  SELECT CASE
+    WHEN messages.mailbox_tag IS NULL THEN m.address
+    ELSE substr(m.address, 1, instr(m.address, '@') - 1) || '+' || messages.mailbox_tag
+      || substr(m.address, instr(m.address, '@'))
+  END
+  FROM mailboxes m
+  WHERE m.id = messages.mailbox_id
+)
+WHERE direction = 'inbound'
+  AND dedupe_key IS NOT NULL
+  AND dedupe_key NOT LIKE '%|%'
+  AND mailbox_id IN (SELECT id FROM mailboxes);
@@ -1,9 +1,71 @@
-import { Hono } from "hono";
+import { Hono, type MiddlewareHandler } from "hono";
+import { z } from "zod";
 import { getDb } from "./db/client";
-import { sendEmail, replyToMessage } from "./mail";
+import {
+  sendEmail,
+  replyToMessage,
+  forwardMessage,
+  listPendingOutbound,
+  approveOutbound,
+  rejectOutbound,
+  type SendResult,
+} from "./mail";
 import { addLabels, removeLabel } from "./labels";
 import { archiveMessage, unarchiveMessage } from "./archive";
 import { searchMessages } from "./search";
+import {
+  upsertSenderRule,
+  removeSenderRule,
+  listSenderRules,
+  type SenderAction,
+} from "./senders";
+import { getSenderAuthPolicy } from "./authresults";
+import {
+  createMailbox,
+  listMailboxes,
+  deleteMailbox,
+  mailboxIdQuery,
+  parseAddressList,
+} from "./mailboxes";
+import {
+  ruleInput,
+  ruleUpdateInput,
+  ruleConditionSchema,
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  dryRunRule,
+} from "./rules";
+import { reconcileAttachments } from "./reconcile";
+import { reparseStoredMessages } from "./reparse";
+import { MESSAGE_CATEGORIES } from "./category";
+import { unsubscribe } from "./unsubscribe";
+import {
+  INVITE_RESPONSES,
+  getMessageCalendarEvents,
+  respondToInvite,
+} from "./calendar";
+import type { MessageCategory, OutboxStatus, SuppressionReason } from "./db/schema";
+import {
+  autoResponderInput,
+  listAutoResponders,
+  getAutoResponder,
+  createAutoResponder,
+  updateAutoResponder,
+  deleteAutoResponder,
+} from "./autoresponder";
+import { blockSender, unblockSender, listBlockedSenders } from "./blocklist";
+import { mergeThreads, splitThread } from "./threads";
+import { getProviderByName } from "./providers";
+import { listSuppressions, suppressAddress, unsuppressAddress } from "./suppressions";
+import { listDeliveryReports } from "./reports";
+import {
+  allowOutboundRecipient,
+  listOutboundAllowlist,
+  removeOutboundRecipient,
+} from "./outboundpolicy";
 import {
   createDraft,
   getDraft,
@@ -12,10 +74,40 @@ import {
   sendDraft,
   deleteDraft,
 } from "./drafts";
+import {
+  queueEmail,
+  queueDraft,
+  listOutbox,
+  getOutboxItem,
+  cancelOutboxItem,
+  rescheduleOutboxItem,
+} from "./outbox";
+import {
+  templateInput,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  applyTemplate,
+  applyDraftTemplate,
+  batchSendInput,
+  sendMailMerge,
+} from "./templates";
+import { parseTimestamp } from "./time";
 import type { Env } from "./types";
 
 const api = new Hono<{ Bindings: Env }>();
 
+/**
+ * 200 once the provider accepted it, 202 while a retry or approval is
+ * pending, 502 if it failed
+ */
+function sendResultStatus(result: SendResult) {
+  if (result.status === "failed") return 502;
+  return result.status === "sent" ? 200 : 202;
+}
+
 // Auth middleware — timing-safe API key comparison
 api.use("/api/*", async (c, next) => {
   const key = c.req.header("X-API-Key");
@@ -34,74 +126,171 @@ api.use("/api/*", async (c, next) => {
   await next();
 });
 
-// --- Resend Delivery Webhook (token-verified, outside /api/*) ---
+/**
+ * Approver-only routes additionally need X-Approval-Key to match
+ * APPROVAL_API_KEY. The MCP agent authenticates with API_KEY, so it can't
+ * pass this check; without a distinct approver key the routes are disabled.
+ */
+const requireApprover: MiddlewareHandler<{ Bindings: Env }> = async (c, next) => {
+  const secret = c.env.APPROVAL_API_KEY;
+  if (!secret || secret === c.env.API_KEY) {
+    return c.json(
+      { error: "Outbound approval requires an APPROVAL_API_KEY distinct from API_KEY" },
+      403
+    );
+  }
+
+  const key = c.req.header("X-Approval-Key");
+  if (!key) return c.json({ error: "Missing approval key" }, 401);
+
+  const expected = new TextEncoder().encode(secret);
+  const provided = new TextEncoder().encode(key);
+
+  if (
+    expected.byteLength !== provided.byteLength ||
+    !crypto.subtle.timingSafeEqual(expected, provided)
+  ) {
+    return c.json({ error: "Invalid approval key" }, 401);
+  }
 
-const RESEND_STATUS_MAP: Record<string, string> = {
-  "email.sent": "sent",
-  "email.delivered": "delivered",
-  "email.bounced": "bounced",
-  "email.complained": "complained",
+  await next();
 };
 
-api.post("/webhooks/resend", async (c) => {
-  if (c.env.RESEND_WEBHOOK_SECRET) {
-    const token = c.req.query("token");
-    if (!token) return c.json({ error: "Missing token" }, 401);
+// --- Provider Delivery Webhooks (token-verified, outside /api/*) ---
 
-    const expected = new TextEncoder().encode(c.env.RESEND_WEBHOOK_SECRET);
-    const provided = new TextEncoder().encode(token);
+api.post("/webhooks/:provider", async (c) => {
+  const provider = getProviderByName(c.env, c.req.param("provider"));
+  if (!provider?.parseStatusWebhook) return c.json({ error: "Unknown provider" }, 404);
 
-    if (
-      expected.byteLength !== provided.byteLength ||
-      !crypto.subtle.timingSafeEqual(expected, provided)
-    ) {
-      return c.json({ error: "Invalid token" }, 401);
-    }
+  // Events mark messages failed and suppress addresses, so an unconfigured
+  // secret rejects every request rather than accepting unauthenticated ones
+  if (!provider.webhookSecret) {
+    return c.json({ error: `Webhook secret for ${provider.name} is not configured` }, 401);
   }
 
-  const payload = await c.req.json<{
-    type: string;
-    data: { email_id?: string };
-  }>();
+  const token = c.req.query("token");
+  if (!token) return c.json({ error: "Missing token" }, 401);
+
+  const expected = new TextEncoder().encode(provider.webhookSecret);
+  const provided = new TextEncoder().encode(token);
 
-  const status = RESEND_STATUS_MAP[payload.type];
-  if (!status || !payload.data?.email_id) {
-    return c.json({ ok: true });
+  if (
+    expected.byteLength !== provided.byteLength ||
+    !crypto.subtle.timingSafeEqual(expected, provided)
+  ) {
+    return c.json({ error: "Invalid token" }, 401);
   }
 
+  const updates = provider.parseStatusWebhook(await c.req.json());
+
   const db = getDb(c.env.DB);
-  await db
-    .updateTable("messages")
-    .set({ status })
-    .where("message_id", "=", payload.data.email_id)
-    .execute();
+  for (const update of updates) {
+    await db
+      .updateTable("messages")
+      .set({ status: update.status })
+      .where("provider_message_id", "=", update.providerMessageId)
+      .execute();
+
+    // Only recipients of a message we sent are suppressed, so a forged
+    // payload can't block arbitrary addresses
+    if (update.suppress?.length) {
+      const message = await db
+        .selectFrom("messages")
+        .select(["id", "to", "cc", "bcc"])
+        .where("provider_message_id", "=", update.providerMessageId)
+        .where("direction", "=", "outbound")
+        .executeTakeFirst();
+      if (!message) continue;
+
+      const recipients = new Set(
+        parseAddressList([message.to, message.cc, message.bcc].filter(Boolean).join(", "))
+      );
+      for (const address of parseAddressList(update.suppress.join(", "))) {
+        if (!recipients.has(address)) continue;
+        await suppressAddress(db, address, update.status === "complained" ? "complaint" : "bounce", {
+          detail: `${provider.name} ${update.status} webhook`,
+          messageId: message.id,
+        });
+      }
+    }
+  }
 
   return c.json({ ok: true });
 });
 
 // --- Email Operations ---
 
-// Send email
+// Send email now, or queue it in the outbox when send_at is given
 api.post("/api/send", async (c) => {
-  const body = await c.req.json<{
+  const { send_at, timezone, ...input } = await c.req.json<{
+    send_at?: number | string;
+    timezone?: string;
+    template_id?: string;
+    variables?: Record<string, string>;
     to: string | string[];
-    subject: string;
-    body: string;
+    subject?: string;
+    body?: string;
+    html?: string;
+    markdown?: string;
     cc?: string | string[];
     bcc?: string | string[];
+    mailbox?: string;
     attachments?: { content?: string; filename: string; attachment_id?: string }[];
   }>();
 
   const db = getDb(c.env.DB);
-  const result = await sendEmail(c.env, db, body);
-  return c.json(result);
+  // Template variables are checked here, before anything is queued or sent
+  const body = await applyTemplate(db, input);
+  if ("error" in body) {
+    const status = body.error === "Template not found" ? 404 : 400;
+    return c.json(body, status);
+  }
+
+  if (send_at !== undefined) {
+    try {
+      const item = await queueEmail(c.env, db, body, parseTimestamp(send_at, timezone));
+      return c.json(item, 202);
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+  }
+
+  let result: SendResult;
+  try {
+    result = await sendEmail(c.env, db, body);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+  return c.json(result, sendResultStatus(result));
+});
+
+// Mail merge: one email (and thread) per recipient, sent via provider batch APIs
+api.post("/api/send/batch", async (c) => {
+  const parsed = batchSendInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  if (parsed.data.template_id && !(await getTemplate(db, parsed.data.template_id))) {
+    return c.json({ error: "Template not found" }, 404);
+  }
+
+  try {
+    return c.json(await sendMailMerge(c.env, db, parsed.data));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
 });
 
 // Reply to message (approved only)
 api.post("/api/messages/:id/reply", async (c) => {
   const id = c.req.param("id");
   const body = await c.req.json<{
-    body: string;
+    body?: string;
+    html?: string;
+    markdown?: string;
+    reply_all?: boolean;
+    cc?: string | string[];
+    bcc?: string | string[];
     attachments?: { content?: string; filename: string; attachment_id?: string }[];
   }>();
 
@@ -114,8 +303,59 @@ api.post("/api/messages/:id/reply", async (c) => {
 
   if (!msg || msg.approved !== 1) return c.json({ error: "Not found" }, 404);
 
-  const result = await replyToMessage(c.env, db, id, body.body, body.attachments);
-  return c.json(result);
+  let result: SendResult;
+  try {
+    result = await replyToMessage(
+      c.env,
+      db,
+      id,
+      { body: body.body, html: body.html, markdown: body.markdown },
+      body.attachments,
+      { replyAll: body.reply_all, cc: body.cc, bcc: body.bcc }
+    );
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+  return c.json(result, sendResultStatus(result));
+});
+
+// Forward message with its attachments (approved only)
+api.post("/api/messages/:id/forward", async (c) => {
+  const id = c.req.param("id");
+  const body = await c.req.json<{
+    to: string | string[];
+    body?: string;
+    html?: string;
+    markdown?: string;
+    cc?: string | string[];
+    bcc?: string | string[];
+    mailbox?: string;
+  }>();
+  if (!body.to || body.to.length === 0) return c.json({ error: "to is required" }, 400);
+
+  const db = getDb(c.env.DB);
+  const msg = await db
+    .selectFrom("messages")
+    .select("approved")
+    .where("id", "=", id)
+    .executeTakeFirst();
+
+  if (!msg || msg.approved !== 1) return c.json({ error: "Not found" }, 404);
+
+  let result: SendResult;
+  try {
+    result = await forwardMessage(
+      c.env,
+      db,
+      id,
+      body.to,
+      { body: body.body, html: body.html, markdown: body.markdown },
+      { cc: body.cc, bcc: body.bcc, mailbox: body.mailbox }
+    );
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+  return c.json(result, sendResultStatus(result));
 });
 
 // --- Message Queries ---
@@ -128,8 +368,14 @@ api.get("/api/messages", async (c) => {
   const direction = c.req.query("direction");
   const from = c.req.query("from");
   const label = c.req.query("label");
+  const mailbox = c.req.query("mailbox");
+  const category = c.req.query("category");
   const includeArchived = c.req.query("include_archived") === "true";
 
+  if (category && !MESSAGE_CATEGORIES.includes(category as MessageCategory)) {
+    return c.json({ error: `category must be one of ${MESSAGE_CATEGORIES.join(", ")}` }, 400);
+  }
+
   let query = db
     .selectFrom("messages")
     .selectAll()
@@ -141,6 +387,8 @@ api.get("/api/messages", async (c) => {
   if (!includeArchived) query = query.where("archived", "=", 0);
   if (direction) query = query.where("direction", "=", direction as any);
   if (from) query = query.where("from", "=", from);
+  if (mailbox) query = query.where("mailbox_id", "in", mailboxIdQuery(db, mailbox));
+  if (category) query = query.where("category", "=", category as MessageCategory);
   if (label) {
     query = query.where("id", "in",
       db.selectFrom("message_labels")
@@ -179,10 +427,42 @@ api.get("/api/messages/:id", async (c) => {
     .where("message_id", "=", id)
     .execute();
 
+  const calendarEvents = await getMessageCalendarEvents(db, id);
+  const deliveryReports =
+    message.direction === "outbound" ? await listDeliveryReports(db, { messageId: id }) : [];
+
   return c.json({
     ...message,
     attachments,
     labels: labels.map((l) => l.label),
+    calendar_events: calendarEvents,
+    delivery_reports: deliveryReports,
+  });
+});
+
+// Download the original RFC 822 source (approved only)
+api.get("/api/messages/:id/raw", async (c) => {
+  const db = getDb(c.env.DB);
+  const id = c.req.param("id");
+
+  const message = await db
+    .selectFrom("messages")
+    .select("raw_r2_key")
+    .where("id", "=", id)
+    .where("approved", "=", 1)
+    .executeTakeFirst();
+
+  if (!message) return c.json({ error: "Not found" }, 404);
+  if (!message.raw_r2_key) return c.json({ error: "Raw source not stored for this message" }, 404);
+
+  const obj = await c.env.ATTACHMENTS.get(message.raw_r2_key);
+  if (!obj) return c.json({ error: "Raw source not found" }, 404);
+
+  return new Response(obj.body, {
+    headers: {
+      "Content-Type": "message/rfc822",
+      "Content-Disposition": `attachment; filename="${id}.eml"`,
+    },
   });
 });
 
@@ -213,7 +493,8 @@ api.get("/api/attachments/:id", async (c) => {
   return new Response(obj.body, {
     headers: {
       "Content-Type": att.content_type ?? "application/octet-stream",
-      "Content-Disposition": `attachment; filename="${att.filename ?? "attachment"}"`,
+      // Inline parts are referenced from body_html_sanitized as <img src>
+      "Content-Disposition": `${att.disposition === "inline" ? "inline" : "attachment"}; filename="${att.filename ?? "attachment"}"`,
     },
   });
 });
@@ -223,11 +504,16 @@ api.get("/api/search", async (c) => {
   const q = c.req.query("q");
   const limit = Number(c.req.query("limit") ?? 20);
   const includeArchived = c.req.query("include_archived") === "true";
+  const mailbox = c.req.query("mailbox");
+  const category = c.req.query("category") as MessageCategory | undefined;
 
   if (!q) return c.json({ error: "Missing query parameter 'q'" }, 400);
+  if (category && !MESSAGE_CATEGORIES.includes(category)) {
+    return c.json({ error: `category must be one of ${MESSAGE_CATEGORIES.join(", ")}` }, 400);
+  }
 
   const db = getDb(c.env.DB);
-  const messages = await searchMessages(db, q, limit, includeArchived);
+  const messages = await searchMessages(db, q, limit, includeArchived, { mailbox, category });
   return c.json(messages);
 });
 
@@ -238,15 +524,20 @@ api.get("/api/threads", async (c) => {
   const db = getDb(c.env.DB);
   const limit = Number(c.req.query("limit") ?? 50);
   const offset = Number(c.req.query("offset") ?? 0);
+  const mailbox = c.req.query("mailbox");
+
+  let approvedMessages = db
+    .selectFrom("messages")
+    .select("thread_id")
+    .where("approved", "=", 1);
+  if (mailbox) {
+    approvedMessages = approvedMessages.where("mailbox_id", "in", mailboxIdQuery(db, mailbox));
+  }
 
   const threads = await db
     .selectFrom("threads")
     .selectAll()
-    .where("id", "in",
-      db.selectFrom("messages")
-        .select("thread_id")
-        .where("approved", "=", 1)
-    )
+    .where("id", "in", approvedMessages)
     .orderBy("last_message_at", "desc")
     .limit(limit)
     .offset(offset)
@@ -281,6 +572,42 @@ api.get("/api/threads/:id", async (c) => {
   return c.json({ ...thread, messages });
 });
 
+const mergeThreadsInput = z.object({
+  thread_ids: z.array(z.string()).min(1).max(50),
+});
+
+// Merge other threads into this one
+api.post("/api/threads/:id/merge", async (c) => {
+  const parsed = mergeThreadsInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const result = await mergeThreads(c.env, db, c.req.param("id"), parsed.data.thread_ids);
+  if ("error" in result) {
+    const status = result.error.startsWith("Thread not found") ? 404 : 400;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
+const splitThreadInput = z.object({
+  message_ids: z.array(z.string()).min(1).max(50),
+});
+
+// Move messages out of this thread into a new one
+api.post("/api/threads/:id/split", async (c) => {
+  const parsed = splitThreadInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const result = await splitThread(c.env, db, c.req.param("id"), parsed.data.message_ids);
+  if ("error" in result) {
+    const status = result.error === "Thread not found" ? 404 : 400;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
 // --- Labels ---
 
 api.post("/api/messages/:id/labels", async (c) => {
@@ -303,6 +630,47 @@ api.delete("/api/messages/:id/labels/:label", async (c) => {
   return c.json(result);
 });
 
+// --- Unsubscribe ---
+
+// RFC 8058 one-click unsubscribe, or mailto: unsubscribe (approved only)
+api.post("/api/messages/:id/unsubscribe", async (c) => {
+  const db = getDb(c.env.DB);
+  const result = await unsubscribe(c.env, db, c.req.param("id"));
+  if ("error" in result) {
+    const status = result.error === "Message not found" ? 404 : 400;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
+// --- Calendar invites ---
+
+const rsvpInput = z.object({
+  response: z.enum(INVITE_RESPONSES),
+  comment: z.string().optional(),
+});
+
+// Send an iTIP REPLY (accept/decline/tentative) to the invite's organizer
+api.post("/api/messages/:id/rsvp", async (c) => {
+  const parsed = rsvpInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const result = await respondToInvite(
+    c.env,
+    db,
+    c.req.param("id"),
+    parsed.data.response,
+    parsed.data.comment
+  );
+  if ("error" in result) {
+    const status = result.error === "Message not found" ? 404 : 400;
+    return c.json(result, status);
+  }
+  // 202 while the REPLY is held for approval or waiting on a retry
+  return c.json(result, result.status === "sent" ? 200 : 202);
+});
+
 // --- Archive / Unarchive ---
 
 api.post("/api/messages/:id/archive", async (c) => {
@@ -334,15 +702,24 @@ api.get("/api/drafts", async (c) => {
 });
 
 api.post("/api/drafts", async (c) => {
-  const body = await c.req.json<{
+  const input = await c.req.json<{
     to?: string;
     cc?: string;
     bcc?: string;
     subject?: string;
     body_text?: string;
+    body_html?: string;
+    body_markdown?: string;
     thread_id?: string;
+    template_id?: string;
+    variables?: Record<string, string>;
   }>();
   const db = getDb(c.env.DB);
+  const body = await applyDraftTemplate(db, input);
+  if ("error" in body) {
+    const status = body.error === "Template not found" ? 404 : 400;
+    return c.json(body, status);
+  }
   const result = await createDraft(db, body);
   return c.json(result, 201);
 });
@@ -362,6 +739,8 @@ api.put("/api/drafts/:id", async (c) => {
     bcc?: string;
     subject?: string;
     body_text?: string;
+    body_html?: string;
+    body_markdown?: string;
     thread_id?: string;
   }>();
   const db = getDb(c.env.DB);
@@ -370,14 +749,34 @@ api.put("/api/drafts/:id", async (c) => {
   return c.json({ id });
 });
 
+// Send a draft now, or schedule it with { send_at, timezone? }
 api.post("/api/drafts/:id/send", async (c) => {
   const db = getDb(c.env.DB);
+  const body = await c.req
+    .json<{ send_at?: number | string; timezone?: string }>()
+    .catch(() => ({ send_at: undefined, timezone: undefined }));
+
+  if (body.send_at !== undefined) {
+    let sendAt: number;
+    try {
+      sendAt = parseTimestamp(body.send_at, body.timezone);
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 400);
+    }
+    const item = await queueDraft(db, c.req.param("id"), sendAt);
+    if ("error" in item) {
+      const status = item.error === "Draft not found" ? 404 : 400;
+      return c.json(item, status);
+    }
+    return c.json(item, 202);
+  }
+
   const result = await sendDraft(c.env, db, c.req.param("id"));
   if ("error" in result) {
     const status = result.error === "Draft not found" ? 404 : 400;
     return c.json(result, status);
   }
-  return c.json(result);
+  return c.json(result, sendResultStatus(result));
 });
 
 api.delete("/api/drafts/:id", async (c) => {
@@ -387,6 +786,302 @@ api.delete("/api/drafts/:id", async (c) => {
   return c.json({ deleted: c.req.param("id") });
 });
 
+// --- Outbox (scheduled sends) ---
+
+api.get("/api/outbox", async (c) => {
+  const db = getDb(c.env.DB);
+  const items = await listOutbox(db, {
+    status: c.req.query("status") as OutboxStatus | undefined,
+    limit: Number(c.req.query("limit") ?? 50),
+    offset: Number(c.req.query("offset") ?? 0),
+  });
+  return c.json(items);
+});
+
+api.get("/api/outbox/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const item = await getOutboxItem(db, c.req.param("id"));
+  if (!item) return c.json({ error: "Not found" }, 404);
+  return c.json(item);
+});
+
+api.post("/api/outbox/:id/cancel", async (c) => {
+  const db = getDb(c.env.DB);
+  const result = await cancelOutboxItem(c.env, db, c.req.param("id"));
+  if ("error" in result) {
+    const status = result.error === "Outbox item not found" ? 404 : 409;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
+api.post("/api/outbox/:id/reschedule", async (c) => {
+  const body = await c.req.json<{ send_at: number | string; timezone?: string }>();
+  let sendAt: number;
+  try {
+    sendAt = parseTimestamp(body.send_at, body.timezone);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+
+  const db = getDb(c.env.DB);
+  const result = await rescheduleOutboxItem(db, c.req.param("id"), sendAt);
+  if ("error" in result) {
+    const status = result.error === "Outbox item not found" ? 404 : 409;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
+// --- Outbound Approval ---
+// Approving, rejecting and the allowlist need the approver key, which the
+// MCP agent (authenticated with API_KEY) doesn't have
+
+api.get("/api/outbound/pending", async (c) => {
+  const db = getDb(c.env.DB);
+  const messages = await listPendingOutbound(db, {
+    limit: Number(c.req.query("limit") ?? 50),
+    offset: Number(c.req.query("offset") ?? 0),
+  });
+  return c.json(messages);
+});
+
+// Approve a held message and send it
+api.post("/api/outbound/:id/approve", requireApprover, async (c) => {
+  const db = getDb(c.env.DB);
+  const result = await approveOutbound(c.env, db, c.req.param("id"));
+  if ("error" in result) {
+    const status = result.error === "Message not found" ? 404 : 409;
+    return c.json(result, status);
+  }
+  return c.json(result, sendResultStatus(result));
+});
+
+// Reject a held message; it is kept with status "rejected"
+api.post("/api/outbound/:id/reject", requireApprover, async (c) => {
+  const { note } = await c.req
+    .json<{ note?: string }>()
+    .catch(() => ({ note: undefined }));
+
+  const db = getDb(c.env.DB);
+  const result = await rejectOutbound(db, c.req.param("id"), note);
+  if ("error" in result) {
+    const status = result.error === "Message not found" ? 404 : 409;
+    return c.json(result, status);
+  }
+  return c.json(result);
+});
+
+api.get("/api/outbound/allowlist", requireApprover, async (c) => {
+  const db = getDb(c.env.DB);
+  return c.json(await listOutboundAllowlist(db));
+});
+
+// Recipients mail may go to without approval under OUTBOUND_APPROVAL_POLICY=unknown
+api.post("/api/outbound/allowlist", requireApprover, async (c) => {
+  const { pattern, note } = await c.req.json<{ pattern: string; note?: string }>();
+  if (!pattern) return c.json({ error: "Missing pattern" }, 400);
+
+  const db = getDb(c.env.DB);
+  const normalized = await allowOutboundRecipient(db, pattern, note ?? null);
+  return c.json({ pattern: normalized }, 201);
+});
+
+api.delete("/api/outbound/allowlist/:pattern", requireApprover, async (c) => {
+  const db = getDb(c.env.DB);
+  const removed = await removeOutboundRecipient(db, decodeURIComponent(c.req.param("pattern")));
+  if (!removed) return c.json({ error: "Not found" }, 404);
+  return c.json({ deleted: true });
+});
+
+// --- Rules ---
+
+api.get("/api/rules", async (c) => {
+  const db = getDb(c.env.DB);
+  const rules = await listRules(db);
+  return c.json(rules);
+});
+
+api.post("/api/rules", async (c) => {
+  const parsed = ruleInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const rule = await createRule(db, parsed.data);
+  return c.json(rule, 201);
+});
+
+// Dry run: which stored inbound messages would a rule have matched?
+// Body is either { id } for a saved rule or { match_mode?, conditions } for an unsaved one.
+const dryRunInput = z.object({
+  id: z.string().optional(),
+  match_mode: z.enum(["all", "any"]).optional().default("all"),
+  conditions: z.array(ruleConditionSchema).optional(),
+  limit: z.number().int().min(1).max(1000).optional().default(200),
+});
+
+api.post("/api/rules/dry-run", async (c) => {
+  const parsed = dryRunInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const { id, match_mode, conditions, limit } = parsed.data;
+  const rule = id ? await getRule(db, id) : conditions ? { match_mode, conditions } : null;
+  if (!rule) return c.json({ error: id ? "Not found" : "Provide id or conditions" }, id ? 404 : 400);
+
+  const result = await dryRunRule(db, rule, limit);
+  return c.json(result);
+});
+
+api.get("/api/rules/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const rule = await getRule(db, c.req.param("id"));
+  if (!rule) return c.json({ error: "Not found" }, 404);
+  return c.json(rule);
+});
+
+api.put("/api/rules/:id", async (c) => {
+  const parsed = ruleUpdateInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  const rule = await updateRule(db, c.req.param("id"), parsed.data);
+  if (!rule) return c.json({ error: "Not found" }, 404);
+  return c.json(rule);
+});
+
+api.delete("/api/rules/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const found = await deleteRule(db, c.req.param("id"));
+  if (!found) return c.json({ error: "Not found" }, 404);
+  return c.json({ deleted: c.req.param("id") });
+});
+
+// --- Auto-Responders ---
+
+api.get("/api/auto-responders", async (c) => {
+  const db = getDb(c.env.DB);
+  const responders = await listAutoResponders(db);
+  return c.json(responders);
+});
+
+api.post("/api/auto-responders", async (c) => {
+  const parsed = autoResponderInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  try {
+    const responder = await createAutoResponder(db, parsed.data);
+    return c.json(responder, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+});
+
+api.get("/api/auto-responders/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const responder = await getAutoResponder(db, c.req.param("id"));
+  if (!responder) return c.json({ error: "Not found" }, 404);
+  return c.json(responder);
+});
+
+api.put("/api/auto-responders/:id", async (c) => {
+  const parsed = autoResponderInput.partial().safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  try {
+    const responder = await updateAutoResponder(db, c.req.param("id"), parsed.data);
+    if (!responder) return c.json({ error: "Not found" }, 404);
+    return c.json(responder);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+});
+
+api.delete("/api/auto-responders/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const found = await deleteAutoResponder(db, c.req.param("id"));
+  if (!found) return c.json({ error: "Not found" }, 404);
+  return c.json({ deleted: c.req.param("id") });
+});
+
+// --- Templates ---
+
+api.get("/api/templates", async (c) => {
+  const db = getDb(c.env.DB);
+  const templates = await listTemplates(db);
+  return c.json(templates);
+});
+
+api.post("/api/templates", async (c) => {
+  const parsed = templateInput.safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  try {
+    const template = await createTemplate(db, parsed.data);
+    return c.json(template, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+});
+
+// :id is the template id or name
+api.get("/api/templates/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const template = await getTemplate(db, c.req.param("id"));
+  if (!template) return c.json({ error: "Not found" }, 404);
+  return c.json(template);
+});
+
+api.put("/api/templates/:id", async (c) => {
+  const parsed = templateInput.partial().safeParse(await c.req.json());
+  if (!parsed.success) return c.json({ error: parsed.error.message }, 400);
+
+  const db = getDb(c.env.DB);
+  try {
+    const template = await updateTemplate(db, c.req.param("id"), parsed.data);
+    if (!template) return c.json({ error: "Not found" }, 404);
+    return c.json(template);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+});
+
+api.delete("/api/templates/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const found = await deleteTemplate(db, c.req.param("id"));
+  if (!found) return c.json({ error: "Not found" }, 404);
+  return c.json({ deleted: c.req.param("id") });
+});
+
+// --- Mailboxes ---
+
+api.get("/api/mailboxes", async (c) => {
+  const db = getDb(c.env.DB);
+  const mailboxes = await listMailboxes(db);
+  return c.json(mailboxes);
+});
+
+// Create (or rename) a mailbox
+api.post("/api/mailboxes", async (c) => {
+  const { address, name } = await c.req.json<{ address: string; name?: string }>();
+  if (!address?.includes("@")) return c.json({ error: "Invalid address" }, 400);
+
+  const db = getDb(c.env.DB);
+  const mailbox = await createMailbox(db, address, name ?? null);
+  return c.json(mailbox, 201);
+});
+
+api.delete("/api/mailboxes/:id", async (c) => {
+  const db = getDb(c.env.DB);
+  const id = decodeURIComponent(c.req.param("id"));
+  const found = await deleteMailbox(db, id);
+  if (!found) return c.json({ error: "Not found" }, 404);
+  return c.json({ deleted: id });
+});
+
 // --- Sender Approval ---
 
 // List pending messages (metadata only — no body content)
@@ -407,60 +1102,134 @@ api.get("/api/pending", async (c) => {
   return c.json(messages);
 });
 
-// Approve a sender (allowlist + retroactively approve their messages)
+// Approve a sender (allowlist + retroactively approve their messages).
+// `email` may be an exact address, a domain ("stripe.com", "*@stripe.com"),
+// a subdomain wildcard ("*.github.com") or a glob. `action: "deny"` adds a
+// deny rule that overrides any matching allow rule.
 api.post("/api/approved-senders", async (c) => {
-  const { email, name } = await c.req.json<{ email: string; name?: string }>();
-  const db = getDb(c.env.DB);
-  const normalized = email.toLowerCase();
-
-  await db
-    .insertInto("approved_senders")
-    .values({
-      email: normalized,
-      name: name ?? null,
-      created_at: Date.now(),
-    })
-    .onConflict((oc) => oc.column("email").doUpdateSet({ name: name ?? null }))
-    .execute();
-
-  // Retroactively approve all messages from this sender
-  const result = await db
-    .updateTable("messages")
-    .set({ approved: 1 })
-    .where("from", "=", normalized)
-    .where("approved", "=", 0)
-    .execute();
+  const { email, name, action } = await c.req.json<{
+    email: string;
+    name?: string;
+    action?: SenderAction;
+  }>();
+  if (action && action !== "allow" && action !== "deny") {
+    return c.json({ error: "action must be 'allow' or 'deny'" }, 400);
+  }
 
-  return c.json({
-    email: normalized,
-    approved_count: Number(result[0]?.numUpdatedRows ?? 0),
-  });
+  const db = getDb(c.env.DB);
+  const result = await upsertSenderRule(
+    db,
+    email,
+    name ?? null,
+    action ?? "allow",
+    getSenderAuthPolicy(c.env)
+  );
+  return c.json(result);
 });
 
-// Remove an approved sender
+// Remove an approved sender rule
 api.delete("/api/approved-senders/:email", async (c) => {
-  const email = decodeURIComponent(c.req.param("email")).toLowerCase();
   const db = getDb(c.env.DB);
+  const removed = await removeSenderRule(db, decodeURIComponent(c.req.param("email")));
+  return c.json({ removed });
+});
 
-  await db
-    .deleteFrom("approved_senders")
-    .where("email", "=", email)
-    .execute();
+// List approved sender rules
+api.get("/api/approved-senders", async (c) => {
+  const db = getDb(c.env.DB);
+  const senders = await listSenderRules(db);
+  return c.json(senders);
+});
+
+// --- Blocked Senders ---
 
-  return c.json({ removed: email });
+// Block a sender address or domain (inbound mail is rejected at SMTP time)
+api.post("/api/blocked-senders", async (c) => {
+  const { pattern, reason } = await c.req.json<{ pattern: string; reason?: string }>();
+  if (!pattern) return c.json({ error: "Missing pattern" }, 400);
+
+  const db = getDb(c.env.DB);
+  const result = await blockSender(db, pattern, reason ?? null);
+  return c.json(result, 201);
 });
 
-// List approved senders
-api.get("/api/approved-senders", async (c) => {
+// Unblock a sender address or domain
+api.delete("/api/blocked-senders/:pattern", async (c) => {
+  const db = getDb(c.env.DB);
+  const removed = await unblockSender(db, decodeURIComponent(c.req.param("pattern")));
+  return c.json({ removed });
+});
+
+// List blocked senders with per-rule rejection counts
+api.get("/api/blocked-senders", async (c) => {
   const db = getDb(c.env.DB);
+  const blocked = await listBlockedSenders(db);
+  return c.json(blocked);
+});
 
-  const senders = await db
-    .selectFrom("approved_senders")
-    .selectAll()
-    .orderBy("created_at", "desc")
-    .execute();
+// --- Suppressions ---
 
-  return c.json(senders);
+api.get("/api/suppressions", async (c) => {
+  const db = getDb(c.env.DB);
+  const suppressions = await listSuppressions(db, {
+    reason: c.req.query("reason") as SuppressionReason | undefined,
+    limit: Number(c.req.query("limit") ?? 100),
+    offset: Number(c.req.query("offset") ?? 0),
+  });
+  return c.json(suppressions);
+});
+
+// Suppress an address by hand (reason "manual")
+api.post("/api/suppressions", async (c) => {
+  const { address, detail } = await c.req.json<{ address: string; detail?: string }>();
+  if (!address) return c.json({ error: "Missing address" }, 400);
+
+  const db = getDb(c.env.DB);
+  try {
+    const suppressed = await suppressAddress(db, address, "manual", { detail });
+    return c.json({ address: suppressed }, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+});
+
+api.delete("/api/suppressions/:address", async (c) => {
+  const db = getDb(c.env.DB);
+  const address = decodeURIComponent(c.req.param("address"));
+  const removed = await unsuppressAddress(db, address);
+  if (!removed) return c.json({ error: "Not found" }, 404);
+  return c.json({ removed: address.trim().toLowerCase() });
+});
+
+// Inbound bounce (DSN) and complaint (ARF) reports, newest first
+api.get("/api/delivery-reports", async (c) => {
+  const db = getDb(c.env.DB);
+  const reports = await listDeliveryReports(db, {
+    messageId: c.req.query("message_id"),
+    limit: Number(c.req.query("limit") ?? 100),
+    offset: Number(c.req.query("offset") ?? 0),
+  });
+  return c.json(reports);
+});
+
+// --- Admin ---
+
+// Find (and unless ?dry_run=true, delete) R2 objects with no attachments row
+api.post("/api/admin/reconcile-attachments", async (c) => {
+  const db = getDb(c.env.DB);
+  const dryRun = c.req.query("dry_run") === "true";
+  const result = await reconcileAttachments(c.env, db, { dryRun });
+  return c.json(result);
+});
+
+// Re-run parsing over stored raw messages to backfill derived columns.
+// Paginated: pass the returned next_cursor back until it is null.
+api.post("/api/admin/reparse", async (c) => {
+  const db = getDb(c.env.DB);
+  const limit = Math.min(Number(c.req.query("limit") ?? 50), 200);
+  const cursor = c.req.query("cursor");
+  const result = await reparseStoredMessages(c.env, db, { limit, cursor });
+  return c.json(result);
 });
 
 export { api };
@@ -0,0 +1,150 @@
+import type { ExpressionBuilder } from "kysely";
+import type { Database } from "./db/schema";
+import { parseAddressList } from "./mailboxes";
+import type { Env } from "./types";
+
+export interface AuthVerdicts {
+  spf: string | null;
+  dkim: string | null;
+  dmarc: string | null;
+}
+
+/** "off" (default) | "fail" — drop to pending on DMARC/DKIM fail | "strict" — require DMARC or aligned DKIM pass */
+export type SenderAuthPolicy = "off" | "fail" | "strict";
+
+/** authserv-id Cloudflare Email Routing stamps on its Authentication-Results */
+const DEFAULT_AUTHSERV_ID = "mx.cloudflare.net";
+
+/** One dkim= result: the signing domain and the leading characters of its b= tag */
+export interface DkimResult {
+  result: string;
+  domain: string | null;
+  signature: string | null;
+}
+
+/** authserv-id whose Authentication-Results we trust (AUTHSERV_ID, else Cloudflare's) */
+export function getAuthservId(env: Env): string {
+  return (env.AUTHSERV_ID ?? DEFAULT_AUTHSERV_ID).trim().toLowerCase();
+}
+
+/** Lowercased domain of the RFC 5322 From address, which DMARC aligns against */
+export function fromDomain(headers: { key: string; value: string }[]): string | null {
+  const from = headers.find((h) => h.key.toLowerCase() === "from")?.value;
+  const address = parseAddressList(from)[0];
+  return address?.includes("@") ? address.slice(address.lastIndexOf("@") + 1) : null;
+}
+
+/**
+ * Relaxed DMARC alignment without a public suffix list: the signing domain
+ * is the From domain, a parent of it, or a subdomain of it
+ */
+export function isAlignedDomain(signingDomain: string, from: string): boolean {
+  const d = signingDomain.toLowerCase();
+  const f = from.toLowerCase();
+  return d === f || f.endsWith(`.${d}`) || d.endsWith(`.${f}`);
+}
+
+/** Split an Authentication-Results value into its authserv-id and result segments */
+function splitAuthenticationResults(value: string): { authservId: string; segments: string[] } {
+  const [id, ...segments] = value.replace(/\([^)]*\)/g, " ").split(";");
+  // The authserv-id may be followed by a version number
+  return { authservId: id.trim().split(/\s+/)[0].toLowerCase(), segments };
+}
+
+/** Every dkim= result in an Authentication-Results value, with header.d / header.b */
+export function parseDkimResults(value: string): DkimResult[] {
+  return splitAuthenticationResults(value)
+    .segments.map((segment) => segment.trim())
+    .filter((segment) => /^dkim\s*=/i.test(segment))
+    .map((segment) => ({
+      result: segment.match(/^dkim\s*=\s*([a-z]+)/i)?.[1].toLowerCase() ?? "none",
+      domain: segment.match(/\bheader\.d\s*=\s*([^\s;]+)/i)?.[1].toLowerCase() ?? null,
+      signature: segment.match(/\bheader\.b\s*=\s*([^\s;]+)/i)?.[1] ?? null,
+    }));
+}
+
+/**
+ * Parse an RFC 8601 Authentication-Results header value, e.g.
+ *   mx.cloudflare.net; dkim=pass header.d=example.com; spf=pass smtp.mailfrom=...; dmarc=pass
+ * Only DKIM results whose header.d aligns with `from` count, so a message
+ * signed with an unrelated domain's key can't pass as the From domain; an
+ * aligned pass wins over other aligned results.
+ */
+export function parseAuthenticationResults(value: string, from: string | null): AuthVerdicts {
+  const verdicts: AuthVerdicts = { spf: null, dkim: null, dmarc: null };
+
+  for (const segment of splitAuthenticationResults(value).segments) {
+    const match = segment.trim().match(/^(spf|dmarc)\s*=\s*([a-z]+)/i);
+    if (!match) continue;
+    const method = match[1].toLowerCase() as "spf" | "dmarc";
+    verdicts[method] ??= match[2].toLowerCase();
+  }
+
+  const aligned = parseDkimResults(value).filter(
+    (r) => from && r.domain && isAlignedDomain(r.domain, from)
+  );
+  verdicts.dkim = (aligned.find((r) => r.result === "pass") ?? aligned[0])?.result ?? null;
+
+  return verdicts;
+}
+
+/**
+ * The Authentication-Results header our receiving MTA added: the topmost one
+ * carrying the trusted authserv-id. Headers from other hosts, and
+ * ARC-Authentication-Results (an earlier hop's claim), are ignored since the
+ * sender could have written them.
+ */
+export function trustedAuthenticationResults(
+  headers: { key: string; value: string }[],
+  authservId: string
+): string | null {
+  return (
+    headers.find(
+      (h) =>
+        h.key.toLowerCase() === "authentication-results" &&
+        splitAuthenticationResults(h.value).authservId === authservId
+    )?.value ?? null
+  );
+}
+
+/** Extract verdicts from parsed message headers, in message order */
+export function extractAuthVerdicts(
+  headers: { key: string; value: string }[],
+  authservId: string
+): AuthVerdicts {
+  const value = trustedAuthenticationResults(headers, authservId);
+  if (!value) return { spf: null, dkim: null, dmarc: null };
+  return parseAuthenticationResults(value, fromDomain(headers));
+}
+
+export function getSenderAuthPolicy(env: Env): SenderAuthPolicy {
+  const policy = env.SENDER_AUTH_POLICY;
+  return policy === "fail" || policy === "strict" ? policy : "off";
+}
+
+/** Whether a message from an approved sender may be auto-approved given its auth verdicts */
+export function passesSenderAuthPolicy(
+  policy: SenderAuthPolicy,
+  verdicts: AuthVerdicts
+): boolean {
+  if (policy === "off") return true;
+  if (policy === "fail") {
+    return verdicts.dmarc !== "fail" && verdicts.dkim !== "fail";
+  }
+  // auth_dkim only ever holds an aligned signature's result
+  return verdicts.dmarc === "pass" || verdicts.dkim === "pass";
+}
+
+/** SQL equivalent of passesSenderAuthPolicy for bulk approval updates */
+export function senderAuthPolicyFilter(policy: SenderAuthPolicy) {
+  return (eb: ExpressionBuilder<Database, "messages">) => {
+    if (policy === "off") return eb.lit(true);
+    if (policy === "fail") {
+      return eb.and([
+        eb.or([eb("auth_dmarc", "is", null), eb("auth_dmarc", "!=", "fail")]),
+        eb.or([eb("auth_dkim", "is", null), eb("auth_dkim", "!=", "fail")]),
+      ]);
+    }
+    return eb.or([eb("auth_dmarc", "=", "pass"), eb("auth_dkim", "=", "pass")]);
+  };
+}
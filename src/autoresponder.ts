@@ -0,0 +1,283 @@
+import type { Kysely } from "kysely";
+import { z } from "zod";
+import type { AutoResponder, Database } from "./db/schema";
+import { replyToMessage } from "./mail";
+import { getMailbox, listOwnAddresses, parsePlusAddress } from "./mailboxes";
+import { renderTemplate } from "./templates";
+import { findSuppressed } from "./suppressions";
+import type { Env } from "./types";
+
+// ---------------------------------------------------------------------------
+// Responder definitions
+// ---------------------------------------------------------------------------
+
+const timestamp = z
+  .union([z.number(), z.string()])
+  .describe("Unix ms timestamp or ISO 8601 date");
+
+export const autoResponderInputSchema = {
+  name: z.string().describe("Responder name"),
+  body_text: z.string().describe("Reply body. Supports {{subject}}, {{from}} and {{mailbox}}"),
+  subject: z.string().optional().describe("Reply subject (default: 'Re: {{subject}}')"),
+  audience: z.enum(["unknown", "all"]).optional().default("all").describe("'unknown' answers only unapproved senders"),
+  mailbox: z.string().optional().describe("Only answer mail received on this mailbox (id or address)"),
+  starts_at: timestamp.optional().describe("Start of the active window"),
+  ends_at: timestamp.optional().describe("End of the active window"),
+  throttle_days: z.number().int().min(0).optional().default(7).describe("Answer each sender at most once per N days"),
+  enabled: z.boolean().optional().default(true).describe("Whether the responder is active"),
+};
+
+export const autoResponderInput = z.object(autoResponderInputSchema);
+export type AutoResponderInput = z.infer<typeof autoResponderInput>;
+
+function toTimestamp(value: number | string | undefined): number | null {
+  if (value === undefined) return null;
+  if (typeof value === "number") return value;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid date: ${value}`);
+  return ms;
+}
+
+// ---------------------------------------------------------------------------
+// Loop protection
+// ---------------------------------------------------------------------------
+
+/** Local parts that belong to robots, per RFC 3834 §2 */
+const ROBOT_LOCAL_PARTS = /^(mailer-daemon|postmaster|no-?reply|do-?not-?reply|bounces?)$/;
+
+/**
+ * Why we must not auto-reply to this message, or null if it's safe to.
+ * Honors Auto-Submitted, Precedence bulk/list/junk, List-Id and
+ * X-Auto-Response-Suppress, and never answers robots or our own addresses.
+ */
+export function autoReplySuppressionReason(
+  from: string,
+  headers: { key: string; value: string }[],
+  ownAddresses: Set<string>
+): string | null {
+  const header = (name: string) =>
+    headers.find((h) => h.key.toLowerCase() === name)?.value.trim().toLowerCase();
+
+  const autoSubmitted = header("auto-submitted");
+  if (autoSubmitted && autoSubmitted !== "no") return "auto-submitted";
+
+  const precedence = header("precedence");
+  if (precedence && ["bulk", "list", "junk"].includes(precedence)) {
+    return `precedence: ${precedence}`;
+  }
+
+  if (header("list-id")) return "mailing list";
+
+  const suppress = header("x-auto-response-suppress");
+  if (suppress && /\b(all|oof|autoreply)\b/.test(suppress)) {
+    return "x-auto-response-suppress";
+  }
+
+  const { base } = parsePlusAddress(from);
+  if (!base.includes("@")) return "no sender address";
+  if (ownAddresses.has(base)) return "own address";
+  if (ROBOT_LOCAL_PARTS.test(base.split("@")[0])) return "robot sender";
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Inbound execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Send at most one auto-reply for a freshly stored inbound message, from the
+ * first active responder that applies. The reply goes through
+ * replyToMessage, so it is threaded and stored as an outbound message. It is
+ * sent to From, never Reply-To (RFC 3834 §3.1): From is the address the loop
+ * and own-address checks ran on, and Reply-To would let a sender aim the
+ * responder at a third party.
+ */
+export async function runAutoResponders(
+  env: Env,
+  db: Kysely<Database>,
+  inbound: {
+    id: string;
+    from: string;
+    subject: string;
+    approved: number;
+    mailbox_id: string | null;
+    mailbox_address: string | null;
+    headers: { key: string; value: string }[];
+  }
+): Promise<{ responder_id: string; reply_id: string } | null> {
+  const now = Date.now();
+
+  const responders = await db
+    .selectFrom("auto_responders")
+    .selectAll()
+    .where("enabled", "=", 1)
+    .where((eb) => eb.or([eb("starts_at", "is", null), eb("starts_at", "<=", now)]))
+    .where((eb) => eb.or([eb("ends_at", "is", null), eb("ends_at", ">", now)]))
+    .orderBy("created_at", "asc")
+    .execute();
+
+  const responder = responders.find(
+    (r) =>
+      (r.mailbox_id === null || r.mailbox_id === inbound.mailbox_id) &&
+      (r.audience === "all" || inbound.approved === 0)
+  );
+  if (!responder) return null;
+
+  const ownAddresses = await listOwnAddresses(env, db);
+  const suppressed = autoReplySuppressionReason(inbound.from, inbound.headers, ownAddresses);
+  if (suppressed) {
+    console.log(`Auto-reply to ${inbound.from} suppressed: ${suppressed}`);
+    return null;
+  }
+  // The reply path refuses suppressed recipients; skip instead of failing
+  const [listed] = await findSuppressed(db, [inbound.from]);
+  if (listed) {
+    console.log(`Auto-reply to ${inbound.from} skipped: on the suppression list (${listed.reason})`);
+    return null;
+  }
+
+  const sender = inbound.from.toLowerCase();
+  const last = await db
+    .selectFrom("auto_responder_log")
+    .select("last_sent_at")
+    .where("responder_id", "=", responder.id)
+    .where("sender", "=", sender)
+    .executeTakeFirst();
+  if (last && now - last.last_sent_at < responder.throttle_days * 86_400_000) {
+    return null;
+  }
+
+  const vars = {
+    subject: inbound.subject,
+    from: inbound.from,
+    mailbox: inbound.mailbox_address ?? env.FROM_EMAIL,
+  };
+  const result = await replyToMessage(
+    env,
+    db,
+    inbound.id,
+    renderTemplate(responder.body_text, vars),
+    undefined,
+    {
+      subject: responder.subject ? renderTemplate(responder.subject, vars) : undefined,
+      to: inbound.from,
+      headers: {
+        "Auto-Submitted": "auto-replied",
+        "X-Auto-Response-Suppress": "All",
+      },
+    }
+  );
+  // Don't start the throttle window for a reply that never went out
+  if (result.status === "failed") return null;
+
+  await db
+    .insertInto("auto_responder_log")
+    .values({ responder_id: responder.id, sender, last_sent_at: now })
+    .onConflict((oc) =>
+      oc.columns(["responder_id", "sender"]).doUpdateSet({ last_sent_at: now })
+    )
+    .execute();
+
+  return { responder_id: responder.id, reply_id: result.dbId };
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+async function resolveMailboxId(
+  db: Kysely<Database>,
+  mailbox: string | undefined
+): Promise<string | null> {
+  if (!mailbox) return null;
+  const row = await getMailbox(db, mailbox);
+  if (!row) throw new Error(`Mailbox ${mailbox} not found`);
+  return row.id;
+}
+
+export async function listAutoResponders(
+  db: Kysely<Database>
+): Promise<AutoResponder[]> {
+  return db
+    .selectFrom("auto_responders")
+    .selectAll()
+    .orderBy("created_at", "asc")
+    .execute();
+}
+
+export async function getAutoResponder(
+  db: Kysely<Database>,
+  id: string
+): Promise<AutoResponder | null> {
+  return (
+    (await db
+      .selectFrom("auto_responders")
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst()) ?? null
+  );
+}
+
+export async function createAutoResponder(
+  db: Kysely<Database>,
+  input: AutoResponderInput
+): Promise<AutoResponder> {
+  const now = Date.now();
+  const id = crypto.randomUUID();
+
+  await db
+    .insertInto("auto_responders")
+    .values({
+      id,
+      name: input.name,
+      enabled: input.enabled ? 1 : 0,
+      mailbox_id: await resolveMailboxId(db, input.mailbox),
+      audience: input.audience,
+      subject: input.subject ?? null,
+      body_text: input.body_text,
+      starts_at: toTimestamp(input.starts_at),
+      ends_at: toTimestamp(input.ends_at),
+      throttle_days: input.throttle_days,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  return (await getAutoResponder(db, id))!;
+}
+
+export async function updateAutoResponder(
+  db: Kysely<Database>,
+  id: string,
+  input: Partial<AutoResponderInput>
+): Promise<AutoResponder | null> {
+  const existing = await getAutoResponder(db, id);
+  if (!existing) return null;
+
+  const updates: Record<string, unknown> = { updated_at: Date.now() };
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.enabled !== undefined) updates.enabled = input.enabled ? 1 : 0;
+  if (input.mailbox !== undefined) updates.mailbox_id = await resolveMailboxId(db, input.mailbox);
+  if (input.audience !== undefined) updates.audience = input.audience;
+  if (input.subject !== undefined) updates.subject = input.subject;
+  if (input.body_text !== undefined) updates.body_text = input.body_text;
+  if (input.starts_at !== undefined) updates.starts_at = toTimestamp(input.starts_at);
+  if (input.ends_at !== undefined) updates.ends_at = toTimestamp(input.ends_at);
+  if (input.throttle_days !== undefined) updates.throttle_days = input.throttle_days;
+
+  await db.updateTable("auto_responders").set(updates).where("id", "=", id).execute();
+  return getAutoResponder(db, id);
+}
+
+export async function deleteAutoResponder(
+  db: Kysely<Database>,
+  id: string
+): Promise<boolean> {
+  const existing = await getAutoResponder(db, id);
+  if (!existing) return false;
+
+  await db.deleteFrom("auto_responder_log").where("responder_id", "=", id).execute();
+  await db.deleteFrom("auto_responders").where("id", "=", id).execute();
+  return true;
+}
@@ -0,0 +1,102 @@
+import { sql, type Kysely } from "kysely";
+import type { BlockedSender, Database } from "./db/schema";
+
+/** Normalize a blocklist entry: "a@b.com" is an address, "b.com" / "@b.com" / "*@b.com" a domain */
+export function normalizeBlockPattern(
+  pattern: string
+): { pattern: string; kind: "address" | "domain" } {
+  const p = pattern.trim().toLowerCase().replace(/^\*?@/, "");
+  return p.includes("@")
+    ? { pattern: p, kind: "address" }
+    : { pattern: p, kind: "domain" };
+}
+
+/** The address itself plus every parent domain, so "evil.com" also blocks "mx.evil.com" */
+function blockCandidates(address: string): string[] {
+  const addr = address.trim().toLowerCase();
+  const at = addr.lastIndexOf("@");
+  if (at === -1) return [addr];
+
+  const candidates = [addr];
+  const labels = addr.slice(at + 1).split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join("."));
+  }
+  return candidates;
+}
+
+/** Return the first blocklist rule matching any of the given addresses */
+export async function findBlockingRule(
+  db: Kysely<Database>,
+  addresses: string[]
+): Promise<BlockedSender | null> {
+  const candidates = [...new Set(addresses.filter(Boolean).flatMap(blockCandidates))];
+  if (candidates.length === 0) return null;
+
+  return (
+    (await db
+      .selectFrom("blocked_senders")
+      .selectAll()
+      .where("pattern", "in", candidates)
+      .executeTakeFirst()) ?? null
+  );
+}
+
+export async function recordRejection(
+  db: Kysely<Database>,
+  pattern: string
+): Promise<void> {
+  await db
+    .updateTable("blocked_senders")
+    .set({
+      reject_count: sql`reject_count + 1` as any,
+      last_rejected_at: Date.now(),
+    })
+    .where("pattern", "=", pattern)
+    .execute();
+}
+
+export async function blockSender(
+  db: Kysely<Database>,
+  pattern: string,
+  reason: string | null
+): Promise<{ pattern: string; kind: "address" | "domain" }> {
+  const normalized = normalizeBlockPattern(pattern);
+
+  await db
+    .insertInto("blocked_senders")
+    .values({
+      pattern: normalized.pattern,
+      kind: normalized.kind,
+      reason,
+      reject_count: 0,
+      last_rejected_at: null,
+      created_at: Date.now(),
+    })
+    .onConflict((oc) => oc.column("pattern").doUpdateSet({ reason }))
+    .execute();
+
+  return normalized;
+}
+
+export async function unblockSender(
+  db: Kysely<Database>,
+  pattern: string
+): Promise<string> {
+  const { pattern: normalized } = normalizeBlockPattern(pattern);
+  await db
+    .deleteFrom("blocked_senders")
+    .where("pattern", "=", normalized)
+    .execute();
+  return normalized;
+}
+
+export async function listBlockedSenders(
+  db: Kysely<Database>
+): Promise<BlockedSender[]> {
+  return db
+    .selectFrom("blocked_senders")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .execute();
+}
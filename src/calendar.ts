@@ -0,0 +1,519 @@
+import type { Email } from "postal-mime";
+import type { Kysely } from "kysely";
+import type { CalendarEvent, Database, NewCalendarEvent } from "./db/schema";
+import { buildReferences, sendEmail, type SendResult } from "./mail";
+import { normalizeMessageId } from "./messageid";
+import { getMailbox, listOwnAddresses, parsePlusAddress } from "./mailboxes";
+import { zonedTimeToUtc } from "./time";
+import type { Env } from "./types";
+
+export interface CalendarAttendee {
+  email: string;
+  name: string | null;
+  role: string | null;
+  partstat: string | null;
+  rsvp: boolean;
+}
+
+export interface ParsedCalendarEvent {
+  uid: string;
+  method: string | null;
+  sequence: number;
+  recurrence_id: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  organizer: string | null;
+  start_at: number | null;
+  end_at: number | null;
+  all_day: boolean;
+  attendees: CalendarAttendee[];
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar parsing (RFC 5545)
+// ---------------------------------------------------------------------------
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  /** Everything after the property name (";PARAM=x:value") */
+  rest: string;
+}
+
+/** Split "NAME;P1=a;P2="b:c":value", honoring quoted parameter values */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const head = line.slice(0, colon);
+  const parts: string[] = [];
+  let current = "";
+  inQuotes = false;
+  for (const ch of head) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === ";" && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  const params: Record<string, string> = {};
+  for (const param of parts.slice(1)) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+
+  const name = parts[0].toUpperCase();
+  return { name, params, value: line.slice(colon + 1), rest: line.slice(parts[0].length) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_m, ch: string) =>
+    ch === "n" || ch === "N" ? "\n" : ch
+  );
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function stripMailto(value: string): string {
+  return value.replace(/^mailto:/i, "").trim().toLowerCase();
+}
+
+/**
+ * DATE or DATE-TIME value → epoch ms. Times with a TZID are converted via
+ * Intl; unknown zones (e.g. Windows names) and floating times are read as UTC.
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>
+): { ms: number; allDay: boolean } | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, z] = m;
+
+  if (h === undefined || params.VALUE === "DATE") {
+    return { ms: Date.UTC(+y, +mo - 1, +d), allDay: true };
+  }
+
+  const naive = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+  if (z || !params.TZID) return { ms: naive, allDay: false };
+
+  try {
+    return { ms: zonedTimeToUtc(+y, +mo, +d, +h, +mi, +s, params.TZID), allDay: false };
+  } catch {
+    return { ms: naive, allDay: false };
+  }
+}
+
+/** ISO 8601 duration (P1DT2H, PT30M, P1W) → ms */
+function parseDuration(value: string): number | null {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms =
+    ((+(w ?? 0) * 7 + +(d ?? 0)) * 86_400 + +(h ?? 0) * 3600 + +(mi ?? 0) * 60 + +(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/** Parse every VEVENT in an iCalendar object */
+export function parseICalendar(text: string): ParsedCalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedCalendarEvent[] = [];
+  const stack: string[] = [];
+  let method: string | null = null;
+  let current: (ParsedCalendarEvent & { duration: number | null }) | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      const component = line.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === "VEVENT" && stack.length === 2) {
+        current = {
+          uid: "",
+          method,
+          sequence: 0,
+          recurrence_id: null,
+          summary: null,
+          description: null,
+          location: null,
+          organizer: null,
+          start_at: null,
+          end_at: null,
+          all_day: false,
+          attendees: [],
+          duration: null,
+        };
+      }
+      continue;
+    }
+
+    if (line.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current && stack.length === 1) {
+        if (current.uid) {
+          const { duration, ...event } = current;
+          if (event.end_at === null && event.start_at !== null) {
+            event.end_at = event.start_at + (duration ?? (event.all_day ? 86_400_000 : 0));
+          }
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Properties of the VCALENDAR itself
+    if (stack.length === 1 && line.name === "METHOD") {
+      method = line.value.trim().toUpperCase();
+      for (const event of events) event.method ??= method;
+      continue;
+    }
+
+    // Only direct VEVENT properties (not VALARM etc.)
+    if (!current || stack.length !== 2) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value.trim();
+        break;
+      case "SEQUENCE":
+        current.sequence = parseInt(line.value, 10) || 0;
+        break;
+      case "RECURRENCE-ID":
+        current.recurrence_id = line.rest;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(line.value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(line.value);
+        break;
+      case "ORGANIZER":
+        current.organizer = stripMailto(line.value);
+        break;
+      case "DTSTART": {
+        const date = parseDateValue(line.value.trim(), line.params);
+        if (date) {
+          current.start_at = date.ms;
+          current.all_day = date.allDay;
+        }
+        break;
+      }
+      case "DTEND": {
+        const date = parseDateValue(line.value.trim(), line.params);
+        if (date) current.end_at = date.ms;
+        break;
+      }
+      case "DURATION":
+        current.duration = parseDuration(line.value.trim());
+        break;
+      case "ATTENDEE":
+        current.attendees.push({
+          email: stripMailto(line.value),
+          name: line.params.CN ?? null,
+          role: line.params.ROLE ?? null,
+          partstat: line.params.PARTSTAT ?? null,
+          rsvp: line.params.RSVP?.toUpperCase() === "TRUE",
+        });
+        break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Calendar event rows for the text/calendar parts of an inbound message.
+ * Invites usually carry the same VCALENDAR twice (as the alternative body
+ * part and as an .ics attachment), so events are de-duplicated by UID and
+ * RECURRENCE-ID.
+ */
+export function calendarEventRows(
+  parsed: Email,
+  messageId: string,
+  now: number
+): NewCalendarEvent[] {
+  const rows: NewCalendarEvent[] = [];
+  const seen = new Set<string>();
+
+  for (const att of parsed.attachments ?? []) {
+    const mimeType = att.mimeType?.toLowerCase() ?? "";
+    const isCalendar =
+      mimeType === "text/calendar" ||
+      mimeType === "application/ics" ||
+      !!att.filename?.toLowerCase().endsWith(".ics");
+    if (!isCalendar) continue;
+
+    const text =
+      typeof att.content === "string"
+        ? att.content
+        : new TextDecoder().decode(att.content);
+
+    for (const event of parseICalendar(text)) {
+      const key = `${event.uid}\n${event.recurrence_id ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      rows.push({
+        id: crypto.randomUUID(),
+        message_id: messageId,
+        uid: event.uid,
+        method: event.method ?? att.method?.toUpperCase() ?? null,
+        sequence: event.sequence,
+        recurrence_id: event.recurrence_id,
+        summary: event.summary,
+        description: event.description,
+        location: event.location,
+        organizer: event.organizer,
+        start_at: event.start_at,
+        end_at: event.end_at,
+        all_day: event.all_day ? 1 : 0,
+        attendees: JSON.stringify(event.attendees),
+        response: null,
+        responded_at: null,
+        created_at: now,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/** Calendar events attached to a message, with attendees decoded */
+export async function getMessageCalendarEvents(
+  db: Kysely<Database>,
+  messageId: string
+) {
+  const rows = await db
+    .selectFrom("calendar_events")
+    .selectAll()
+    .where("message_id", "=", messageId)
+    .orderBy("created_at", "asc")
+    .execute();
+
+  return rows.map((row) => ({
+    ...row,
+    all_day: row.all_day === 1,
+    attendees: JSON.parse(row.attendees) as CalendarAttendee[],
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// RSVP (iTIP REPLY, RFC 5546)
+// ---------------------------------------------------------------------------
+
+export const INVITE_RESPONSES = ["accept", "decline", "tentative"] as const;
+export type InviteResponse = (typeof INVITE_RESPONSES)[number];
+
+const PARTSTAT: Record<InviteResponse, string> = {
+  accept: "ACCEPTED",
+  decline: "DECLINED",
+  tentative: "TENTATIVE",
+};
+
+const SUBJECT_PREFIX: Record<InviteResponse, string> = {
+  accept: "Accepted",
+  decline: "Declined",
+  tentative: "Tentatively Accepted",
+};
+
+const RESPONSE_VERB: Record<InviteResponse, string> = {
+  accept: "accepted",
+  decline: "declined",
+  tentative: "tentatively accepted",
+};
+
+function formatUtc(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Fold content lines at 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const len = new TextEncoder().encode(ch).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + len > limit) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function buildReply(
+  event: CalendarEvent,
+  attendee: CalendarAttendee,
+  partstat: string,
+  comment?: string
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "PRODID:-//clawpost//EN",
+    "VERSION:2.0",
+    "METHOD:REPLY",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+  ];
+  if (event.recurrence_id) lines.push(`RECURRENCE-ID${event.recurrence_id}`);
+  lines.push(`SEQUENCE:${event.sequence}`, `DTSTAMP:${formatUtc(Date.now())}`);
+  if (event.start_at !== null) {
+    lines.push(
+      event.all_day
+        ? `DTSTART;VALUE=DATE:${formatDate(event.start_at)}`
+        : `DTSTART:${formatUtc(event.start_at)}`
+    );
+  }
+  if (event.end_at !== null) {
+    lines.push(
+      event.all_day
+        ? `DTEND;VALUE=DATE:${formatDate(event.end_at)}`
+        : `DTEND:${formatUtc(event.end_at)}`
+    );
+  }
+  if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  lines.push(`ORGANIZER:mailto:${event.organizer}`);
+  const cn = attendee.name ? `;CN="${attendee.name.replace(/"/g, "")}"` : "";
+  lines.push(`ATTENDEE;PARTSTAT=${partstat}${cn}:mailto:${attendee.email}`);
+  if (comment) lines.push(`COMMENT:${escapeText(comment)}`);
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export interface InviteResponseResult {
+  event_id: string;
+  uid: string;
+  response: string;
+  /** Outbound message id of the REPLY */
+  message_id: string;
+  /** Delivery status of the REPLY; the response is only recorded once it isn't held */
+  status: SendResult["status"];
+  approval_reason?: string;
+}
+
+/**
+ * Accept, decline or tentatively accept the invite in a stored message by
+ * sending an iTIP REPLY to the organizer. The reply is sent with sendEmail,
+ * threaded to the invite, from whichever of our addresses was invited.
+ */
+export async function respondToInvite(
+  env: Env,
+  db: Kysely<Database>,
+  messageId: string,
+  response: InviteResponse,
+  comment?: string
+): Promise<InviteResponseResult | { error: string }> {
+  const msg = await db
+    .selectFrom("messages")
+    .select(["id", "thread_id", "message_id", "in_reply_to", "references", "subject"])
+    .where("id", "=", messageId)
+    .where("approved", "=", 1)
+    .executeTakeFirst();
+  if (!msg) return { error: "Message not found" };
+
+  const events = await db
+    .selectFrom("calendar_events")
+    .selectAll()
+    .where("message_id", "=", messageId)
+    .orderBy("created_at", "asc")
+    .execute();
+  // With a series plus overridden occurrences, answer for the series
+  const event = events.find((e) => !e.recurrence_id) ?? events[0];
+  if (!event) return { error: "Message has no calendar invite" };
+  if (event.method && event.method !== "REQUEST") {
+    return { error: `Cannot respond to a ${event.method} invite` };
+  }
+  if (!event.organizer) return { error: "Invite has no organizer" };
+
+  const own = await listOwnAddresses(env, db);
+  const attendees = JSON.parse(event.attendees) as CalendarAttendee[];
+  const attendee = attendees.find((a) => own.has(parsePlusAddress(a.email).base));
+  if (!attendee) return { error: "None of our addresses is an attendee of this invite" };
+
+  const partstat = PARTSTAT[response];
+  const ics = buildReply(event, attendee, partstat, comment);
+  // Answer from the invited address: a mailbox, or else the default identity
+  const mailbox = await getMailbox(db, parsePlusAddress(attendee.email).base);
+  const title = event.summary ?? msg.subject;
+  const who = attendee.name ?? attendee.email;
+
+  let result: SendResult;
+  try {
+    result = await sendEmail(env, db, {
+      to: event.organizer,
+      subject: `${SUBJECT_PREFIX[response]}: ${title}`,
+      body: `${who} has ${RESPONSE_VERB[response]} the invitation: ${title}${comment ? `\n\n${comment}` : ""}`,
+      inReplyTo: msg.message_id ? normalizeMessageId(msg.message_id) : undefined,
+      references: buildReferences(msg).join(" ") || undefined,
+      threadId: msg.thread_id,
+      mailbox: mailbox?.id,
+      // Calendar clients process RSVPs from a text/calendar; method=REPLY part
+      calendar: { method: "REPLY", content: ics },
+    });
+  } catch (err) {
+    // e.g. the organizer is on the suppression list
+    return { error: `RSVP could not be sent: ${(err as Error).message}` };
+  }
+  if (result.status === "failed") {
+    return { error: `RSVP could not be sent: ${result.last_error}` };
+  }
+
+  // A REPLY held for outbound approval may still be rejected
+  if (result.status !== "pending_outbound") {
+    await db
+      .updateTable("calendar_events")
+      .set({ response: partstat.toLowerCase(), responded_at: Date.now() })
+      .where("message_id", "=", messageId)
+      .where("uid", "=", event.uid)
+      .execute();
+  }
+
+  return {
+    event_id: event.id,
+    uid: event.uid,
+    response: partstat.toLowerCase(),
+    message_id: result.dbId,
+    status: result.status,
+    ...(result.approval_reason ? { approval_reason: result.approval_reason } : {}),
+  };
+}
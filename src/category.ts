@@ -0,0 +1,56 @@
+import type { MessageCategory } from "./db/schema";
+
+export const MESSAGE_CATEGORIES = [
+  "personal",
+  "list",
+  "notification",
+  "transactional",
+] as const;
+
+/** Headers set by newsletter / campaign tools */
+const CAMPAIGN_HEADERS = /^(x-mc-user|x-campaign|x-campaignid|x-mailchimp-.*|x-newsletter|x-mailerlite-.*|x-convertkit-.*)$/;
+
+/** Headers set by apps that send activity notifications */
+const NOTIFICATION_HEADERS = /^(x-github-.*|x-gitlab-.*|x-jira-.*|x-atlassian-.*|x-linear-.*|x-notifications.*|x-facebook-notify|x-linkedin-.*)$/;
+
+/** Headers set by transactional ESPs (SES, Mailgun, SendGrid, Postmark, Mandrill, SparkPost) */
+const ESP_HEADERS = /^(x-ses-outgoing|x-mailgun-.*|x-sg-eid|x-sg-id|x-pm-message-id|x-mandrill-user|x-msys-api|feedback-id)$/;
+
+/** Local parts of automated senders */
+const ROBOT_SENDER = /^(no-?reply|do-?not-?reply|notifications?|alerts?|mailer-daemon)([+.-].*)?@/;
+
+/**
+ * Classify an inbound message from its headers. Checked in order:
+ *   list          — List-Id / List-Post / Precedence: list, or List-Unsubscribe from a campaign tool
+ *   notification  — Auto-Submitted, Precedence: bulk/junk, app notification headers, other List-Unsubscribe mail
+ *   transactional — sent through an ESP, or from a no-reply style address
+ *   personal      — everything else
+ */
+export function detectCategory(
+  from: string,
+  headers: { key: string; value: string }[]
+): MessageCategory {
+  const keys = new Set(headers.map((h) => h.key.toLowerCase()));
+  const header = (name: string) =>
+    headers.find((h) => h.key.toLowerCase() === name)?.value.trim().toLowerCase();
+  const hasKey = (pattern: RegExp) => [...keys].some((k) => pattern.test(k));
+
+  const precedence = header("precedence");
+  const autoSubmitted = header("auto-submitted");
+  const hasUnsubscribe = keys.has("list-unsubscribe");
+
+  if (keys.has("list-id") || keys.has("list-post") || precedence === "list") {
+    return "list";
+  }
+  if (hasUnsubscribe && hasKey(CAMPAIGN_HEADERS)) return "list";
+
+  if (autoSubmitted && autoSubmitted !== "no") return "notification";
+  if (precedence === "bulk" || precedence === "junk") return "notification";
+  if (hasKey(NOTIFICATION_HEADERS)) return "notification";
+  if (hasUnsubscribe) return "notification";
+
+  if (hasKey(ESP_HEADERS)) return "transactional";
+  if (ROBOT_SENDER.test(from.toLowerCase())) return "transactional";
+
+  return "personal";
+}
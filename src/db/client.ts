@@ -1,4 +1,4 @@
-import { Kysely } from "kysely";
+import { Kysely, type Compilable } from "kysely";
 import { D1Dialect } from "kysely-d1";
 import type { Database } from "./schema";
 
@@ -7,3 +7,20 @@ export function getDb(d1: D1Database): Kysely<Database> {
     dialect: new D1Dialect({ database: d1 }),
   });
 }
+
+/**
+ * Run Kysely queries as one D1 batch. D1 executes a batch as a single
+ * implicit transaction, so either every statement applies or none do.
+ */
+export async function executeBatch(
+  d1: D1Database,
+  queries: Compilable[]
+): Promise<void> {
+  if (queries.length === 0) return;
+  await d1.batch(
+    queries.map((q) => {
+      const compiled = q.compile();
+      return d1.prepare(compiled.sql).bind(...compiled.parameters);
+    })
+  );
+}
@@ -3,16 +3,38 @@ import type { Insertable, Selectable } from "kysely";
 export interface ThreadTable {
   id: string;
   subject: string;
+  /** normalizeSubject() of the subject; null for threads not yet backfilled */
+  normalized_subject: string | null;
   last_message_at: number;
   message_count: number;
   created_at: number;
 }
 
+export type MessageCategory = "personal" | "list" | "notification" | "transactional";
+
+/**
+ * "pending_outbound" / "retrying" mirror the stored message while it waits
+ * for approval or a provider retry; the item is "sent" once the message is
+ */
+export type OutboxStatus =
+  | "queued"
+  | "sending"
+  | "pending_outbound"
+  | "retrying"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
 export interface MessageTable {
   id: string;
   thread_id: string;
+  /** RFC 5322 Message-ID ("<...>"); generated by us for outbound mail */
   message_id: string | null;
   in_reply_to: string | null;
+  /** Space-separated References chain, oldest first */
+  references: string | null;
+  /** Provider's id for an outbound message (e.g. Resend email id) */
+  provider_message_id: string | null;
   from: string;
   to: string;
   cc: string | null;
@@ -20,11 +42,39 @@ export interface MessageTable {
   subject: string;
   body_text: string | null;
   body_html: string | null;
+  /** body_html with active content and remote loads stripped, cid: images rewritten */
+  body_html_sanitized: string | null;
   headers: string | null;
   direction: "inbound" | "outbound";
   approved: number;
   status: string | null;
   archived: number;
+  /** Parsed Authentication-Results verdicts (inbound only) */
+  auth_spf: string | null;
+  auth_dkim: string | null;
+  auth_dmarc: string | null;
+  /** Mailbox the message was received on / sent from (null = default identity) */
+  mailbox_id: string | null;
+  /** Plus-address tag of the receiving address (agent+tag@...) */
+  mailbox_tag: string | null;
+  /** Inbound idempotency key: "mid:<Message-ID>|<rcpt>" or "sha256:<raw hash>|<rcpt>" */
+  dedupe_key: string | null;
+  /** Inbound category: personal | list | notification | transactional */
+  category: MessageCategory | null;
+  /** R2 key of the original RFC 822 source (inbound only) */
+  raw_r2_key: string | null;
+  /** Outbound delivery: provider attempts so far, last provider error, next retry */
+  send_attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  /** JSON provider request kept for retries until the message is sent */
+  send_params: string | null;
+  /** Outbound forwards: id of the message forwarded */
+  forwarded_from: string | null;
+  /** Outbound approval: why the message was held as "pending_outbound" */
+  approval_reason: string | null;
+  /** Diagnostic for the latest delivery status, e.g. from a bounce report */
+  status_detail: string | null;
   created_at: number;
 }
 
@@ -35,12 +85,77 @@ export interface AttachmentTable {
   content_type: string | null;
   size: number | null;
   r2_key: string;
+  /** "attachment" | "inline" */
+  disposition: string | null;
+  /** Content-ID without angle brackets, referenced by cid: URLs */
+  content_id: string | null;
+  created_at: number;
+}
+
+export interface MailboxTable {
+  id: string;
+  /** Base address without plus tag, lowercase */
+  address: string;
+  /** Display name used when sending from this mailbox */
+  name: string | null;
   created_at: number;
 }
 
 export interface ApprovedSenderTable {
+  /** Exact address or glob pattern (e.g. "*@stripe.com", "*@*.github.com") */
   email: string;
   name: string | null;
+  action: "allow" | "deny";
+  created_at: number;
+}
+
+export interface BlockedSenderTable {
+  /** Exact address, or bare domain (matches subdomains too) */
+  pattern: string;
+  kind: "address" | "domain";
+  reason: string | null;
+  reject_count: number;
+  last_rejected_at: number | null;
+  created_at: number;
+}
+
+export type SuppressionReason = "bounce" | "complaint" | "manual";
+
+export interface SuppressionTable {
+  /** Lowercased recipient address */
+  address: string;
+  reason: SuppressionReason;
+  detail: string | null;
+  /** Message whose bounce or complaint added the address */
+  message_id: string | null;
+  created_at: number;
+}
+
+export interface OutboundAllowlistTable {
+  /** Lowercased recipient glob, normalized like sender rules */
+  pattern: string;
+  note: string | null;
+  created_at: number;
+}
+
+export type DeliveryReportKind = "dsn" | "arf";
+
+export interface DeliveryReportTable {
+  id: string;
+  kind: DeliveryReportKind;
+  /** Outbound message the report is about (null when it couldn't be matched) */
+  message_id: string | null;
+  /** Message-ID of the original message, from the report's attached headers */
+  original_message_id: string | null;
+  recipient: string | null;
+  /** DSN Action (failed, delayed, delivered, ...) or ARF Feedback-Type */
+  action: string;
+  /** DSN Status code, e.g. "5.1.1" */
+  status_code: string | null;
+  diagnostic: string | null;
+  /** Sender of the report */
+  reporter: string;
+  dedupe_key: string;
   created_at: number;
 }
 
@@ -58,6 +173,107 @@ export interface DraftTable {
   bcc: string | null;
   subject: string;
   body_text: string;
+  body_html: string | null;
+  /** Markdown source, rendered to HTML when the draft is sent */
+  body_markdown: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface RuleTable {
+  id: string;
+  name: string;
+  enabled: number;
+  /** Lower runs first */
+  priority: number;
+  match_mode: "all" | "any";
+  /** JSON-encoded RuleCondition[] */
+  conditions: string;
+  /** JSON-encoded RuleAction[] */
+  actions: string;
+  stop_processing: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AutoResponderTable {
+  id: string;
+  name: string;
+  enabled: number;
+  /** Only answer mail received on this mailbox (null = all) */
+  mailbox_id: string | null;
+  audience: "unknown" | "all";
+  /** Subject template; defaults to "Re: {{subject}}" */
+  subject: string | null;
+  /** Body template ({{subject}}, {{from}}, {{mailbox}}) */
+  body_text: string;
+  starts_at: number | null;
+  ends_at: number | null;
+  throttle_days: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface AutoResponderLogTable {
+  responder_id: string;
+  sender: string;
+  last_sent_at: number;
+}
+
+export interface TemplateTable {
+  id: string;
+  name: string;
+  /** Subject and bodies may contain {{variables}} */
+  subject: string;
+  body_text: string | null;
+  body_html: string | null;
+  body_markdown: string | null;
+  /** JSON array of attachment IDs sent with every use */
+  attachment_ids: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CalendarEventTable {
+  id: string;
+  message_id: string;
+  uid: string;
+  /** iTIP METHOD of the enclosing calendar (REQUEST, CANCEL, ...) */
+  method: string | null;
+  sequence: number;
+  /** Raw RECURRENCE-ID params and value (";TZID=...:2026...") for a single occurrence */
+  recurrence_id: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  /** Organizer email address */
+  organizer: string | null;
+  start_at: number | null;
+  end_at: number | null;
+  all_day: number;
+  /** JSON-encoded CalendarAttendee[] */
+  attendees: string;
+  /** RSVP we sent: accepted | declined | tentative */
+  response: string | null;
+  responded_at: number | null;
+  created_at: number;
+}
+
+export interface OutboxTable {
+  id: string;
+  /** Scheduled draft (params is null; the draft is read at send time) */
+  draft_id: string | null;
+  /** JSON-encoded send parameters */
+  params: string | null;
+  to: string;
+  subject: string;
+  send_at: number;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  /** Stored outbound message once sent */
+  message_id: string | null;
+  sent_at: number | null;
   created_at: number;
   updated_at: number;
 }
@@ -66,9 +282,20 @@ export interface Database {
   threads: ThreadTable;
   messages: MessageTable;
   attachments: AttachmentTable;
+  mailboxes: MailboxTable;
   approved_senders: ApprovedSenderTable;
+  blocked_senders: BlockedSenderTable;
+  suppressions: SuppressionTable;
+  outbound_allowlist: OutboundAllowlistTable;
+  delivery_reports: DeliveryReportTable;
   message_labels: MessageLabelTable;
   drafts: DraftTable;
+  rules: RuleTable;
+  auto_responders: AutoResponderTable;
+  auto_responder_log: AutoResponderLogTable;
+  templates: TemplateTable;
+  calendar_events: CalendarEventTable;
+  outbox: OutboxTable;
 }
 
 export type Thread = Selectable<ThreadTable>;
@@ -77,9 +304,29 @@ export type Message = Selectable<MessageTable>;
 export type NewMessage = Insertable<MessageTable>;
 export type Attachment = Selectable<AttachmentTable>;
 export type NewAttachment = Insertable<AttachmentTable>;
+export type Mailbox = Selectable<MailboxTable>;
+export type NewMailbox = Insertable<MailboxTable>;
 export type ApprovedSender = Selectable<ApprovedSenderTable>;
 export type NewApprovedSender = Insertable<ApprovedSenderTable>;
+export type BlockedSender = Selectable<BlockedSenderTable>;
+export type NewBlockedSender = Insertable<BlockedSenderTable>;
+export type Suppression = Selectable<SuppressionTable>;
+export type NewSuppression = Insertable<SuppressionTable>;
+export type OutboundAllowlistEntry = Selectable<OutboundAllowlistTable>;
+export type NewOutboundAllowlistEntry = Insertable<OutboundAllowlistTable>;
+export type DeliveryReport = Selectable<DeliveryReportTable>;
+export type NewDeliveryReport = Insertable<DeliveryReportTable>;
 export type MessageLabel = Selectable<MessageLabelTable>;
 export type NewMessageLabel = Insertable<MessageLabelTable>;
 export type Draft = Selectable<DraftTable>;
 export type NewDraft = Insertable<DraftTable>;
+export type Rule = Selectable<RuleTable>;
+export type NewRule = Insertable<RuleTable>;
+export type AutoResponder = Selectable<AutoResponderTable>;
+export type NewAutoResponder = Insertable<AutoResponderTable>;
+export type Template = Selectable<TemplateTable>;
+export type NewTemplate = Insertable<TemplateTable>;
+export type CalendarEvent = Selectable<CalendarEventTable>;
+export type NewCalendarEvent = Insertable<CalendarEventTable>;
+export type OutboxItem = Selectable<OutboxTable>;
+export type NewOutboxItem = Insertable<OutboxTable>;
@@ -1,5 +1,11 @@
 import { sql, type Kysely } from "kysely";
-import { sendEmail } from "./mail";
+import {
+  buildReferences,
+  sendEmail,
+  type SendEmailParams,
+  type SendResult,
+} from "./mail";
+import { normalizeMessageId } from "./messageid";
 import type { Database, Draft } from "./db/schema";
 import type { Env } from "./types";
 
@@ -9,6 +15,8 @@ export interface DraftParams {
   bcc?: string;
   subject?: string;
   body_text?: string;
+  body_html?: string;
+  body_markdown?: string;
   thread_id?: string;
 }
 
@@ -29,6 +37,8 @@ export async function createDraft(
       bcc: params.bcc ?? null,
       subject: params.subject ?? "",
       body_text: params.body_text ?? "",
+      body_html: params.body_html ?? null,
+      body_markdown: params.body_markdown ?? null,
       created_at: now,
       updated_at: now,
     })
@@ -69,6 +79,8 @@ export async function updateDraft(
   if (params.bcc !== undefined) updates.bcc = params.bcc;
   if (params.subject !== undefined) updates.subject = params.subject;
   if (params.body_text !== undefined) updates.body_text = params.body_text;
+  if (params.body_html !== undefined) updates.body_html = params.body_html;
+  if (params.body_markdown !== undefined) updates.body_markdown = params.body_markdown;
   if (params.thread_id !== undefined) updates.thread_id = params.thread_id;
 
   await db
@@ -94,52 +106,80 @@ export async function listDrafts(
     .execute();
 }
 
-export async function sendDraft(
-  env: Env,
+/**
+ * Send parameters for a draft. A draft attached to a thread is threaded onto
+ * the thread's latest message and sent from that message's mailbox.
+ */
+export async function buildDraftSendParams(
   db: Kysely<Database>,
-  id: string
-): Promise<
-  | { messageId: string; dbId: string; threadId: string }
-  | { error: string }
-> {
-  const draft = await getDraft(db, id);
-  if (!draft) return { error: "Draft not found" };
+  draft: Draft
+): Promise<SendEmailParams | { error: string }> {
   if (!draft.to) return { error: "Draft has no recipient" };
+  if (draft.body_html !== null && draft.body_markdown !== null) {
+    return { error: "Draft has both body_html and body_markdown" };
+  }
 
   // If draft is associated with a thread, build threading context
   let inReplyTo: string | undefined;
   let references: string | undefined;
   let threadId: string | undefined;
+  let mailbox: string | undefined;
 
   if (draft.thread_id) {
     const latestInThread = await db
       .selectFrom("messages")
-      .select(["message_id", "in_reply_to"])
+      .select(["message_id", "in_reply_to", "references", "mailbox_id"])
       .where("thread_id", "=", draft.thread_id)
       .orderBy("created_at", "desc")
       .executeTakeFirst();
 
     if (latestInThread?.message_id) {
-      inReplyTo = latestInThread.message_id;
-      references = latestInThread.in_reply_to
-        ? `${latestInThread.in_reply_to} ${latestInThread.message_id}`
-        : latestInThread.message_id;
+      inReplyTo = normalizeMessageId(latestInThread.message_id);
+      references = buildReferences(latestInThread).join(" ");
     }
     threadId = draft.thread_id;
+    mailbox = latestInThread?.mailbox_id ?? undefined;
   }
 
-  const result = await sendEmail(env, db, {
+  return {
     to: draft.to,
     subject: draft.subject,
     body: draft.body_text,
+    html: draft.body_html ?? undefined,
+    markdown: draft.body_markdown ?? undefined,
     cc: draft.cc ?? undefined,
     bcc: draft.bcc ?? undefined,
     inReplyTo,
     references,
     threadId,
-  });
+    mailbox,
+  };
+}
 
-  await db.deleteFrom("drafts").where("id", "=", id).execute();
+export async function sendDraft(
+  env: Env,
+  db: Kysely<Database>,
+  id: string
+): Promise<SendResult | { error: string }> {
+  const draft = await getDraft(db, id);
+  if (!draft) return { error: "Draft not found" };
+
+  const params = await buildDraftSendParams(db, draft);
+  if ("error" in params) return params;
+
+  // Suppressed recipients, oversized messages and unknown mailboxes throw
+  // before anything is stored; the draft is kept so it can be fixed
+  let result: SendResult;
+  try {
+    result = await sendEmail(env, db, params);
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+
+  // Keep the draft if the provider rejected it, so it can be fixed and resent
+  if (result.status !== "failed") {
+    await db.deleteFrom("drafts").where("id", "=", id).execute();
+  }
 
   return result;
 }
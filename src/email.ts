@@ -1,145 +1,338 @@
-import PostalMime from "postal-mime";
-import { sql } from "kysely";
-import { getDb } from "./db/client";
+import PostalMime, { type Email } from "postal-mime";
+import { sql, type Compilable, type Kysely } from "kysely";
+import { getDb, executeBatch } from "./db/client";
+import type { Database, NewAttachment } from "./db/schema";
 import { dispatchWebhook } from "./webhooks";
+import { isSenderApproved } from "./senders";
+import { findBlockingRule, recordRejection } from "./blocklist";
+import { resolveMailbox } from "./mailboxes";
+import { runInboundRules } from "./rules";
+import { runAutoResponders } from "./autoresponder";
+import { detectCategory } from "./category";
+import { calendarEventRows } from "./calendar";
+import { normalizeMessageId, parseMessageIds } from "./messageid";
+import { htmlToText, normalizeContentId, sanitizeHtml } from "./html";
+import { findFallbackThread, normalizeSubject } from "./threads";
+import { handleDeliveryReport } from "./reports";
+import {
+  extractAuthVerdicts,
+  getAuthservId,
+  getSenderAuthPolicy,
+  passesSenderAuthPolicy,
+} from "./authresults";
 import type { Env } from "./types";
 
+/** Pull the bare address out of a header value like `"Name" <a@b.com>` */
+function extractAddress(value: string | null): string {
+  if (!value) return "";
+  const angle = value.match(/<([^>]+)>/);
+  return (angle ? angle[1] : value).trim().toLowerCase();
+}
+
+/**
+ * `mid:<Message-ID>`, or `sha256:<hex of raw bytes>` when there is no
+ * Message-ID. Identifies the message itself, regardless of recipient.
+ */
+async function computeMessageKey(
+  messageIdHeader: string | null,
+  raw: ArrayBuffer
+): Promise<string> {
+  const messageId = messageIdHeader?.trim();
+  if (messageId) return `mid:${messageId}`;
+
+  const digest = await crypto.subtle.digest("SHA-256", raw);
+  const hex = [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256:${hex}`;
+}
+
+async function isDuplicate(db: Kysely<Database>, dedupeKeys: string[]): Promise<boolean> {
+  const existing = await db
+    .selectFrom("messages")
+    .select("id")
+    .where("dedupe_key", "in", dedupeKeys)
+    .executeTakeFirst();
+  return !!existing;
+}
+
+/** R2 key for the original RFC 822 source of a message */
+export function rawMessageKey(msgId: string): string {
+  return `raw/${msgId}.eml`;
+}
+
+/**
+ * Columns derived purely from the parsed message. Shared by ingestion and
+ * the re-parse backfill so both always agree. `authservId` picks the
+ * Authentication-Results header to trust; `cidMap` maps Content-IDs to
+ * stored attachment ids for rewriting inline images.
+ */
+export async function deriveMessageFields(
+  parsed: Email,
+  envelope: { from: string; to: string },
+  authservId: string,
+  cidMap: Map<string, string> = new Map()
+) {
+  const from = (parsed.from?.address ?? envelope.from).toLowerCase();
+  const toList = (parsed.to ?? []).map((a) => a.address).filter(Boolean) as string[];
+  const ccList = (parsed.cc ?? []).map((a) => a.address).filter(Boolean) as string[];
+  const auth = extractAuthVerdicts(parsed.headers, authservId);
+
+  return {
+    toList,
+    ccList,
+    columns: {
+      from,
+      to: toList.join(", ") || envelope.to,
+      cc: ccList.join(", ") || null,
+      references: parseMessageIds(parsed.references).join(" ") || null,
+      subject: parsed.subject ?? "(no subject)",
+      // HTML-only mail gets a text rendering so FTS and the agent can read it
+      body_text: parsed.text ?? (parsed.html ? htmlToText(parsed.html) : null),
+      body_html: parsed.html ?? null,
+      body_html_sanitized: parsed.html ? await sanitizeHtml(parsed.html, cidMap) : null,
+      headers: JSON.stringify(
+        parsed.headers.map((h) => ({ key: h.key, value: h.value }))
+      ),
+      auth_spf: auth.spf,
+      auth_dkim: auth.dkim,
+      auth_dmarc: auth.dmarc,
+      category: detectCategory(from, parsed.headers),
+    },
+  };
+}
+
 export async function handleInboundEmail(
   message: ForwardableEmailMessage,
   env: Env,
   ctx: ExecutionContext
 ) {
+  const db = getDb(env.DB);
+
+  // Blocklist: reject at SMTP time, before reading, parsing or storing anything
+  const blockedBy = await findBlockingRule(db, [
+    message.from,
+    extractAddress(message.headers.get("from")),
+  ]);
+  if (blockedBy) {
+    await recordRejection(db, blockedBy.pattern);
+    message.setReject("Sender is blocked");
+    return;
+  }
+
   const raw = new Response(message.raw);
   const arrayBuffer = await raw.arrayBuffer();
+
+  // Idempotency: a redelivered message (same Message-ID, or same bytes when
+  // there is no Message-ID, to the same recipient) is acknowledged without
+  // storing it again. The envelope recipient is part of the key: the same
+  // message sent to two of our addresses is delivered once per address and
+  // belongs in both mailboxes. A bare key is a row stored before that whose
+  // recipient migration 0027 couldn't recover; it still counts
+  const messageKey = await computeMessageKey(message.headers.get("message-id"), arrayBuffer);
+  const dedupeKey = `${messageKey}|${message.to.trim().toLowerCase()}`;
+  if (await isDuplicate(db, [dedupeKey, messageKey])) {
+    console.log(`Skipping duplicate inbound message ${dedupeKey}`);
+    return;
+  }
+
   const parsed = await PostalMime.parse(arrayBuffer);
 
-  const db = getDb(env.DB);
+  // Bounces and complaints update the outbound message they refer to and
+  // are kept as delivery reports, not as mail in the inbox or pending list.
+  // A report is about the original message, not a mailbox, so it is
+  // de-duplicated on the message alone
+  if (await handleDeliveryReport(db, parsed, { from: message.from }, messageKey)) return;
+
   const now = Date.now();
   const msgId = crypto.randomUUID();
 
-  const from = (parsed.from?.address ?? message.from).toLowerCase();
-  const to = parsed.to?.[0]?.address ?? message.to;
-  const cc = parsed.cc?.map((a) => a.address).join(", ") || null;
-  const subject = parsed.subject ?? "(no subject)";
+  // Attachment ids are assigned up front so inline cid: images in the
+  // sanitized HTML can point at /api/attachments/:id
+  const attachmentIds = (parsed.attachments ?? []).map(() => crypto.randomUUID());
+  const cidMap = new Map<string, string>();
+  (parsed.attachments ?? []).forEach((att, i) => {
+    if (att.contentId) cidMap.set(normalizeContentId(att.contentId), attachmentIds[i]);
+  });
+
+  const { toList, ccList, columns } = await deriveMessageFields(
+    parsed,
+    { from: message.from, to: message.to },
+    getAuthservId(env),
+    cidMap
+  );
+  const { from, to, cc, subject } = columns;
   const rfc822MessageId = parsed.messageId ?? null;
   const inReplyTo = parsed.inReplyTo ?? null;
 
-  // Check if sender is approved
-  const approvedSender = await db
-    .selectFrom("approved_senders")
-    .select("email")
-    .where("email", "=", from)
-    .executeTakeFirst();
-  const approved = approvedSender ? 1 : 0;
+  // Route to a mailbox: envelope recipient first, then To and Cc
+  const routed = await resolveMailbox(db, [message.to, ...toList, ...ccList]);
 
-  // Threading: find existing thread by In-Reply-To or References
+  // SPF/DKIM/DMARC verdicts from the receiving MTA's auth headers
+  const auth = { spf: columns.auth_spf, dkim: columns.auth_dkim, dmarc: columns.auth_dmarc };
+
+  // Check if sender is approved (exact, domain and glob rules; deny wins).
+  // Depending on SENDER_AUTH_POLICY, failed authentication keeps the
+  // message pending so a spoofed approved address isn't trusted.
+  let approved =
+    (await isSenderApproved(db, from)) &&
+    passesSenderAuthPolicy(getSenderAuthPolicy(env), auth)
+      ? 1
+      : 0;
+
+  // Threading: the thread of the In-Reply-To parent, else of the most
+  // recent References entry we know (outbound rows carry our own Message-IDs),
+  // else a recent thread with the same subject and a shared participant
   let threadId: string | null = null;
 
-  if (inReplyTo) {
-    const existing = await db
+  const candidates = [
+    ...new Set([
+      ...(inReplyTo ? [normalizeMessageId(inReplyTo)] : []),
+      ...parseMessageIds(columns.references).reverse(),
+    ]),
+  ].slice(0, 50);
+  if (candidates.length > 0) {
+    const known = await db
       .selectFrom("messages")
-      .select("thread_id")
-      .where("message_id", "=", inReplyTo)
-      .executeTakeFirst();
-    if (existing) threadId = existing.thread_id;
+      .select(["message_id", "thread_id"])
+      .where("message_id", "in", candidates)
+      .execute();
+    const threads = new Map(known.map((m) => [m.message_id, m.thread_id]));
+    threadId = candidates.map((id) => threads.get(id)).find((t) => t !== undefined) ?? null;
+  }
+  if (!threadId) {
+    threadId = await findFallbackThread(env, db, { subject, from, to, cc });
   }
 
-  if (!threadId && parsed.references) {
-    // References is a space-separated list of Message-IDs
-    const refs =
-      typeof parsed.references === "string"
-        ? parsed.references.split(/\s+/)
-        : [];
-    for (const ref of refs) {
-      const existing = await db
-        .selectFrom("messages")
-        .select("thread_id")
-        .where("message_id", "=", ref)
-        .executeTakeFirst();
-      if (existing) {
-        threadId = existing.thread_id;
-        break;
-      }
-    }
+  // Keep the original RFC 822 source so it can be downloaded or re-parsed later
+  const rawKey = rawMessageKey(msgId);
+  await env.ATTACHMENTS.put(rawKey, arrayBuffer, {
+    httpMetadata: { contentType: "message/rfc822" },
+  });
+
+  // Upload attachment blobs to R2 first. The D1 rows referencing them are
+  // written in one batch below; if that fails the blobs are removed again
+  // (and anything left behind by a crash is cleaned by reconcileAttachments).
+  const attachmentRows: NewAttachment[] = [];
+  for (const [i, att] of (parsed.attachments ?? []).entries()) {
+    const attId = attachmentIds[i];
+    const r2Key = `${msgId}/${attId}/${att.filename ?? "attachment"}`;
+
+    const content = att.content as ArrayBuffer;
+    await env.ATTACHMENTS.put(r2Key, content);
+
+    attachmentRows.push({
+      id: attId,
+      message_id: msgId,
+      filename: att.filename ?? null,
+      content_type: att.mimeType ?? null,
+      size: content.byteLength,
+      r2_key: r2Key,
+      disposition: att.disposition ?? null,
+      content_id: att.contentId ? normalizeContentId(att.contentId) : null,
+      created_at: now,
+    });
   }
 
+  // Thread, message, attachment and calendar rows are written as a single D1
+  // batch (an implicit transaction) so a failure never leaves a half-stored message
+  const writes: Compilable[] = [];
+
   if (threadId) {
     // Update existing thread
-    await db
-      .updateTable("threads")
-      .set({
-        last_message_at: now,
-        message_count: sql`message_count + 1` as any,
-      })
-      .where("id", "=", threadId)
-      .execute();
+    writes.push(
+      db
+        .updateTable("threads")
+        .set({
+          last_message_at: now,
+          message_count: sql`message_count + 1` as any,
+        })
+        .where("id", "=", threadId)
+    );
   } else {
     // New thread
     threadId = crypto.randomUUID();
-    await db
-      .insertInto("threads")
-      .values({
+    writes.push(
+      db.insertInto("threads").values({
         id: threadId,
         subject,
+        normalized_subject: normalizeSubject(subject).subject,
         last_message_at: now,
         message_count: 1,
         created_at: now,
       })
-      .execute();
+    );
   }
 
   // Store message
-  const headersJson = JSON.stringify(
-    parsed.headers.map((h) => ({ key: h.key, value: h.value }))
-  );
-
-  await db
-    .insertInto("messages")
-    .values({
+  writes.push(
+    db.insertInto("messages").values({
+      ...columns,
       id: msgId,
       thread_id: threadId,
       message_id: rfc822MessageId,
       in_reply_to: inReplyTo,
-      from,
-      to,
-      cc,
       bcc: null,
-      subject,
-      body_text: parsed.text ?? null,
-      body_html: parsed.html ?? null,
-      headers: headersJson,
       direction: "inbound",
       approved,
       status: null,
       archived: 0,
+      mailbox_id: routed?.mailbox.id ?? null,
+      mailbox_tag: routed?.tag ?? null,
+      dedupe_key: dedupeKey,
+      raw_r2_key: rawKey,
+      send_attempts: 0,
       created_at: now,
     })
-    .execute();
-
-  // Store attachments in R2
-  if (parsed.attachments?.length) {
-    for (const att of parsed.attachments) {
-      const attId = crypto.randomUUID();
-      const r2Key = `${msgId}/${attId}/${att.filename ?? "attachment"}`;
-
-      const content = att.content as ArrayBuffer;
-      await env.ATTACHMENTS.put(r2Key, content);
-
-      await db
-        .insertInto("attachments")
-        .values({
-          id: attId,
-          message_id: msgId,
-          filename: att.filename ?? null,
-          content_type: att.mimeType ?? null,
-          size: content.byteLength,
-          r2_key: r2Key,
-          created_at: now,
-        })
-        .execute();
+  );
+
+  for (const row of attachmentRows) {
+    writes.push(db.insertInto("attachments").values(row));
+  }
+
+  // Structured copies of any calendar invites (text/calendar parts)
+  for (const row of calendarEventRows(parsed, msgId, now)) {
+    writes.push(db.insertInto("calendar_events").values(row));
+  }
+
+  try {
+    await executeBatch(env.DB, writes);
+  } catch (err) {
+    await env.ATTACHMENTS.delete([rawKey, ...attachmentRows.map((a) => a.r2_key)]);
+    // A concurrent delivery of the same message won the unique dedupe_key race
+    if (String(err).includes("UNIQUE") && (await isDuplicate(db, [dedupeKey]))) {
+      console.log(`Skipping duplicate inbound message ${dedupeKey}`);
+      return;
     }
+    throw err;
   }
 
+  // User-defined rules (labels, archive, approve, forward, webhook)
+  const rules = await runInboundRules(env, db, ctx, message, msgId, {
+    from,
+    to,
+    cc,
+    subject,
+    body_text: columns.body_text,
+    body_html: parsed.html ?? null,
+    headers: parsed.headers,
+    has_attachment: (parsed.attachments?.length ?? 0) > 0,
+  });
+  if (rules.approved) approved = 1;
+
+  // Vacation / auto-responders (threaded reply, stored as outbound)
+  ctx.waitUntil(
+    runAutoResponders(env, db, {
+      id: msgId,
+      from,
+      subject,
+      approved,
+      mailbox_id: routed?.mailbox.id ?? null,
+      mailbox_address: routed?.mailbox.address ?? null,
+      headers: parsed.headers,
+    }).catch((err) => console.error("Auto-responder failed:", err))
+  );
+
   // Dispatch webhook for inbound message
   if (env.WEBHOOK_URL) {
     ctx.waitUntil(
@@ -148,6 +341,7 @@ export async function handleInboundEmail(
         thread_id: threadId,
         from,
         to,
+        mailbox: routed?.mailbox.address ?? null,
         subject,
         direction: "inbound",
         approved,
@@ -0,0 +1,201 @@
+// ---------------------------------------------------------------------------
+// HTML → text
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Escape text for use in HTML content or a quoted attribute */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render HTML as readable plain text for HTML-only mail, so FTS and the
+ * agent see the content. Block elements become line breaks, list items get
+ * bullets, links keep their URL when it differs from the link text.
+ */
+export function htmlToText(html: string): string {
+  // Source whitespace is insignificant in HTML, except inside <pre>
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|title|noscript)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .split(/(<pre\b[\s\S]*?<\/pre\s*>)/i)
+    .map((part, i) => (i % 2 === 0 ? part.replace(/\s+/g, " ") : `\n${part}\n`))
+    .join("")
+    .replace(/<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a\s*>/gi, (_m, href: string, inner: string) => {
+      const label = inner.replace(/<[^>]+>/g, "").trim();
+      if (!label || href.startsWith("mailto:") || label === href) return label || href;
+      return /^https?:/i.test(href) ? `${label} (${href})` : label;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|blockquote|pre|section|article|header|footer)\s*>/gi, "\n\n")
+    .replace(/<\/tr\s*>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, "\t")
+    .replace(/<hr\b[^>]*>/gi, "\n---\n")
+    .replace(/<[^>]+>/g, "");
+
+  text = decodeEntities(text)
+    .replace(/ /g, " ")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n[ \t]+/g, "\n")
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/\n{3,}/g, "\n\n");
+
+  return text.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Sanitization
+// ---------------------------------------------------------------------------
+
+/** Elements removed together with their content */
+const REMOVED_ELEMENTS = [
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "form",
+  "input",
+  "button",
+  "textarea",
+  "select",
+  "link",
+  "meta",
+  "base",
+  "svg",
+  "math",
+  "template",
+];
+
+/** Attributes that can load remote content */
+const URL_ATTRIBUTES = ["src", "srcset", "background", "poster", "data", "action", "formaction", "ping"];
+
+/** Link targets kept in sanitized HTML; every other scheme (and relative URLs) is dropped */
+const ALLOWED_LINK = /^(https?:|mailto:|#)/i;
+
+/** Entities that only matter for hiding a URL scheme */
+const URL_ENTITIES: Record<string, string> = { colon: ":", tab: "\t", newline: "\n" };
+
+/**
+ * A URL attribute as the browser resolves it, for scheme checks: character
+ * references decoded (numeric ones even without the ";"), then control
+ * characters and whitespace removed, so "&#106;avascript:" and
+ * "java\tscript:" both read as "javascript:".
+ */
+function normalizeUrl(value: string): string {
+  return value
+    .replace(/&#(x[0-9a-f]+|\d+);?/gi, (match, ref: string) => {
+      const code = ref[0].toLowerCase() === "x" ? parseInt(ref.slice(1), 16) : parseInt(ref, 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    })
+    .replace(/&([a-z]+);/gi, (match, name: string) => {
+      const key = name.toLowerCase();
+      return URL_ENTITIES[key] ?? NAMED_ENTITIES[key] ?? match;
+    })
+    .replace(/[\u0000-\u0020\u007f-\u00a0]/g, "");
+}
+
+/** Normalize a Content-ID ("<abc@x>") to the form used in cid: URLs ("abc@x") */
+export function normalizeContentId(contentId: string): string {
+  return contentId.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+/**
+ * Produce a safe HTML variant of a message body: scripts, active content,
+ * event handlers, links other than http(s):, mailto: and #fragments, remote
+ * images and other remote loads (tracking pixels included) are stripped. Inline `cid:` images are rewritten
+ * to `/api/attachments/:id` using the given Content-ID → attachment id map.
+ */
+export async function sanitizeHtml(
+  html: string,
+  cidMap: Map<string, string> = new Map()
+): Promise<string> {
+  const rewriter = new HTMLRewriter()
+    .on(REMOVED_ELEMENTS.join(","), {
+      element(el) {
+        el.remove();
+      },
+    })
+    .on("*", {
+      element(el) {
+        for (const [name, value] of [...el.attributes]) {
+          const attr = name.toLowerCase();
+          if (attr.startsWith("on")) {
+            el.removeAttribute(name);
+          } else if (attr === "style" && /url\s*\(|expression\s*\(|@import/i.test(value)) {
+            el.removeAttribute(name);
+          } else if (attr === "href" || attr === "xlink:href") {
+            if (!ALLOWED_LINK.test(normalizeUrl(value))) el.removeAttribute(name);
+          } else if (URL_ATTRIBUTES.includes(attr)) {
+            // Only inline cid: images survive, rewritten to the stored attachment
+            const cid = normalizeUrl(value).match(/^cid:(.+)$/i);
+            const attId = cid ? cidMap.get(normalizeContentId(cid[1])) : undefined;
+            if (attr === "src" && attId) {
+              el.setAttribute(name, `/api/attachments/${attId}`);
+            } else {
+              el.removeAttribute(name);
+            }
+          }
+        }
+      },
+    })
+    .on("img", {
+      element(el) {
+        // Remote (or unresolvable) images were stripped of src above; drop the element
+        if (!el.getAttribute("src")) el.remove();
+      },
+    })
+    .on("a", {
+      element(el) {
+        el.setAttribute("rel", "noopener noreferrer nofollow");
+        el.setAttribute("target", "_blank");
+      },
+    });
+
+  return rewriter.transform(new Response(html)).text();
+}
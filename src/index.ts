@@ -1,6 +1,10 @@
 import { api } from "./api";
 import { handleInboundEmail } from "./email";
 import { EmailMCP } from "./mcp";
+import { reconcileAttachments } from "./reconcile";
+import { dispatchDueOutbox } from "./outbox";
+import { retryDelivery, retryDueSends } from "./mail";
+import { getDb } from "./db/client";
 import type { Env } from "./types";
 
 export { EmailMCP };
@@ -53,4 +57,41 @@ export default {
   async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext) {
     await handleInboundEmail(message, env, ctx);
   },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    // Every minute: send scheduled outbox items that are due
+    if (controller.cron === "* * * * *") {
+      ctx.waitUntil(
+        dispatchDueOutbox(env, getDb(env.DB)).then((r) => {
+          if (r.sent || r.failed) console.log(`Outbox: sent ${r.sent}, failed ${r.failed}`);
+        })
+      );
+      // ...and retry outbound sends whose backoff has elapsed
+      ctx.waitUntil(
+        retryDueSends(env, getDb(env.DB)).then((r) => {
+          if (r.sent || r.retrying || r.failed) {
+            console.log(`Send retries: sent ${r.sent}, retrying ${r.retrying}, failed ${r.failed}`);
+          }
+        })
+      );
+    }
+
+    // Daily: clean R2 attachment blobs orphaned by failed ingestion/sends
+    if (controller.cron === "0 3 * * *") {
+      ctx.waitUntil(
+        reconcileAttachments(env, getDb(env.DB)).then((r) =>
+          console.log(`Reconciled attachments: scanned ${r.scanned}, deleted ${r.deleted}`)
+        )
+      );
+    }
+  },
+
+  // SEND_QUEUE consumer: delayed retries of outbound sends
+  async queue(batch: MessageBatch<{ message_id: string }>, env: Env) {
+    const db = getDb(env.DB);
+    for (const msg of batch.messages) {
+      await retryDelivery(env, db, msg.body.message_id);
+      msg.ack();
+    }
+  },
 };
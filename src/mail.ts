@@ -1,20 +1,54 @@
-import { sql, type Kysely } from "kysely";
-import type { Database } from "./db/schema";
-import { Resend } from "resend";
-import type { Env, EmailServiceAttachment } from "./types";
+import { sql, type Compilable, type Kysely } from "kysely";
+import { executeBatch } from "./db/client";
+import type { Database, Message, NewAttachment } from "./db/schema";
+import { getMailbox, listOwnAddresses, parseAddressList, parsePlusAddress } from "./mailboxes";
+import { renderMarkdown } from "./markdown";
+import { escapeHtml, htmlToText } from "./html";
+import { dispatchWebhook } from "./webhooks";
+import { outboundHoldReason } from "./outboundpolicy";
+import { assertNotSuppressed } from "./suppressions";
+import { generateMessageId, normalizeMessageId, parseMessageIds } from "./messageid";
+import { base64ToBytes, bytesToBase64, detectBase64ContentType, detectContentType } from "./mime";
+import { normalizeSubject } from "./threads";
+import {
+  getProviders,
+  providerSender,
+  providerSend,
+  providerSendBatch,
+  providersForMessage,
+  ProviderError,
+  type CalendarPart,
+  type ProviderSendParams,
+  type ProviderSendResult,
+  type ResolvedAttachment,
+} from "./providers";
+import type { Env } from "./types";
 
-interface AttachmentInput {
+export interface AttachmentInput {
   /** Base64-encoded content for inline attachments */
   content?: string;
   filename: string;
+  /** MIME type of inline content (default application/octet-stream) */
+  content_type?: string;
   /** Existing attachment ID to fetch from R2 */
   attachment_id?: string;
+  /** Content-ID to send the part inline under, for `cid:` references in the HTML */
+  content_id?: string;
 }
 
-interface SendEmailParams {
+/**
+ * Message content. Pass plain text `body`, `html`, or `markdown` (rendered to
+ * HTML). Without `body`, the text alternative is generated from the HTML.
+ */
+export interface MessageBody {
+  body?: string;
+  html?: string;
+  markdown?: string;
+}
+
+export interface SendEmailParams extends MessageBody {
   to: string | string[];
   subject: string;
-  body: string;
   cc?: string | string[];
   bcc?: string | string[];
   replyTo?: string;
@@ -22,145 +56,132 @@ interface SendEmailParams {
   references?: string;
   /** Join an existing thread instead of creating a new one */
   threadId?: string;
+  /** Send from this mailbox (id or address) instead of FROM_EMAIL */
+  mailbox?: string;
   attachments?: AttachmentInput[];
+  /** iTIP body (e.g. an RSVP REPLY), sent as a text/calendar part */
+  calendar?: CalendarPart;
+  /** Id of the stored message this one forwards */
+  forwardedFrom?: string;
 }
 
-/** Resolved attachment ready to send */
-interface ResolvedAttachment {
-  content: string; // base64
-  filename: string;
+export interface ReplyOptions {
+  /** Override the default "Re: <original subject>" */
+  subject?: string;
+  /** Extra headers to send (e.g. Auto-Submitted for auto-replies) */
+  headers?: Record<string, string>;
+  /** Also reply to the original's other To/Cc recipients, minus our own addresses */
+  replyAll?: boolean;
+  /** Send to these addresses instead of Reply-To / From (auto-replies answer From, RFC 3834 §3.1) */
+  to?: string | string[];
+  /** Extra recipients on top of the computed ones */
+  cc?: string | string[];
+  bcc?: string | string[];
 }
 
-/** Result from the underlying email provider */
-interface ProviderSendResult {
+/** Outcome of a send: delivered to the provider, awaiting retry, or given up */
+export interface SendResult {
+  /** RFC 5322 Message-ID */
   messageId: string;
-}
-
-/** Params for the provider-level send call */
-interface ProviderSendParams {
-  from: string;
-  to: string[];
-  subject: string;
-  text: string;
-  cc?: string[];
-  bcc?: string[];
-  replyTo?: string;
-  headers?: Record<string, string>;
-  attachments?: ResolvedAttachment[];
+  /** Provider's id, once it accepted the message */
+  providerMessageId: string | null;
+  dbId: string;
+  threadId: string;
+  status: "sent" | "retrying" | "pending_outbound" | "failed";
+  /** Provider error for "retrying" / "failed" */
+  last_error?: string;
+  /** Why OUTBOUND_APPROVAL_POLICY held a "pending_outbound" message */
+  approval_reason?: string;
 }
 
 // ---------------------------------------------------------------------------
-// Provider dispatch
+// Sender identity
 // ---------------------------------------------------------------------------
 
-function getProvider(env: Env): "cloudflare" | "resend" {
-  if (env.EMAIL_PROVIDER === "cloudflare" || env.EMAIL_PROVIDER === "resend") {
-    return env.EMAIL_PROVIDER;
-  }
-  // Auto-detect: prefer Cloudflare binding if present
-  if (env.EMAIL) return "cloudflare";
-  if (env.RESEND_API_KEY) return "resend";
-  throw new Error(
-    "No email provider configured. Set EMAIL_PROVIDER or provide an EMAIL binding / RESEND_API_KEY."
-  );
+/**
+ * Resolve from address and replyTo for the primary provider. The message is
+ * stored with these; failover swaps in the next provider's own sender.
+ */
+function getSenderConfig(env: Env) {
+  return providerSender(env, getProviders(env)[0]);
 }
 
-/** Resolve from address and replyTo for the active provider */
-function getSenderConfig(env: Env) {
-  const provider = getProvider(env);
-  const fromEmail =
-    provider === "resend" && env.RESEND_FROM_EMAIL
-      ? env.RESEND_FROM_EMAIL
-      : env.FROM_EMAIL;
-  const fromName =
-    provider === "resend" && env.RESEND_FROM_NAME
-      ? env.RESEND_FROM_NAME
-      : env.FROM_NAME;
-  const replyTo =
-    provider === "resend" && env.RESEND_REPLY_TO_EMAIL
-      ? env.RESEND_REPLY_TO_EMAIL
-      : env.REPLY_TO_EMAIL;
-  return { fromEmail, fromName, replyTo, from: `${fromName} <${fromEmail}>` };
-}
-
-async function providerSend(
+/**
+ * Resolve the sender identity for a mailbox, keeping any plus tag so replies
+ * come back to the same address. Without a mailbox, uses the provider default.
+ */
+async function resolveSender(
   env: Env,
-  params: ProviderSendParams
-): Promise<ProviderSendResult> {
-  const provider = getProvider(env);
+  db: Kysely<Database>,
+  mailboxIdOrAddress?: string | null,
+  tag?: string | null
+) {
+  const fallback = getSenderConfig(env);
+  if (!mailboxIdOrAddress) return { ...fallback, mailboxId: null };
 
-  if (provider === "cloudflare") {
-    if (!env.EMAIL) {
-      throw new Error("EMAIL binding is required when EMAIL_PROVIDER is 'cloudflare'");
-    }
+  const mailbox = await getMailbox(db, mailboxIdOrAddress);
+  if (!mailbox) throw new Error(`Mailbox ${mailboxIdOrAddress} not found`);
 
-    const cfAttachments: EmailServiceAttachment[] | undefined =
-      params.attachments && params.attachments.length > 0
-        ? params.attachments.map((att) => ({
-            disposition: "attachment" as const,
-            filename: att.filename,
-            type: "application/octet-stream",
-            content: att.content, // base64 string — CF Email Service accepts this directly
-          }))
-        : undefined;
-
-    // CF Email Service beta rejects headers that don't start with X-.
-    // Strip all non-X- headers (In-Reply-To, References, etc.) for now.
-    let cfHeaders: Record<string, string> | undefined;
-    if (params.headers) {
-      const filtered: Record<string, string> = {};
-      for (const [k, v] of Object.entries(params.headers)) {
-        if (k.toLowerCase().startsWith("x-")) {
-          filtered[k] = v;
-        }
-      }
-      if (Object.keys(filtered).length > 0) {
-        cfHeaders = filtered;
-      }
-    }
+  const [local, domain] = mailbox.address.split("@");
+  const fromEmail = tag ? `${local}+${tag}@${domain}` : mailbox.address;
+  const fromName = mailbox.name ?? fallback.fromName;
+  return {
+    fromEmail,
+    fromName,
+    replyTo: undefined,
+    from: `${fromName} <${fromEmail}>`,
+    mailboxId: mailbox.id,
+  };
+}
 
-    const result = await env.EMAIL.send({
-      from: params.from,
-      to: params.to,
-      subject: params.subject,
-      text: params.text,
-      cc: params.cc,
-      bcc: params.bcc,
-      replyTo: params.replyTo,
-      ...(cfHeaders ? { headers: cfHeaders } : {}),
-      attachments: cfAttachments,
-    });
+// ---------------------------------------------------------------------------
+// Threading (shared)
+// ---------------------------------------------------------------------------
 
-    return { messageId: result.messageId };
-  }
+/** Most References ids sent in a header: the first plus the latest ones */
+const MAX_REFERENCES_HEADER = 20;
 
-  // Resend
-  if (!env.RESEND_API_KEY) {
-    throw new Error("RESEND_API_KEY is required when EMAIL_PROVIDER is 'resend'");
-  }
+/**
+ * References for a reply to `parent` (RFC 5322 §3.6.4): the parent's
+ * References (or its In-Reply-To when it has none) followed by its own
+ * Message-ID. Empty if the parent has no Message-ID.
+ */
+export function buildReferences(
+  parent: Pick<Message, "message_id" | "in_reply_to" | "references">
+): string[] {
+  if (!parent.message_id) return [];
+  const ancestors = parseMessageIds(parent.references ?? parent.in_reply_to);
+  const own = normalizeMessageId(parent.message_id);
+  return [...ancestors.filter((id) => id !== own), own];
+}
 
-  const resend = new Resend(env.RESEND_API_KEY);
-
-  const { data, error } = await resend.emails.send({
-    from: params.from,
-    to: params.to,
-    cc: params.cc,
-    bcc: params.bcc,
-    subject: params.subject,
-    text: params.text,
-    replyTo: params.replyTo,
-    headers: params.headers,
-    attachments:
-      params.attachments && params.attachments.length > 0
-        ? params.attachments.map((att) => ({
-            content: att.content,
-            filename: att.filename,
-          }))
-        : undefined,
-  });
+/** References header value, trimmed to the root and the most recent ids */
+function formatReferences(ids: string[]): string {
+  const kept =
+    ids.length > MAX_REFERENCES_HEADER
+      ? [ids[0], ...ids.slice(-(MAX_REFERENCES_HEADER - 1))]
+      : ids;
+  return kept.join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Body resolution (shared)
+// ---------------------------------------------------------------------------
+
+/** Text and (optional) HTML parts for a message body */
+export function resolveBody(input: MessageBody): { text: string; html: string | null } {
+  if (input.html !== undefined && input.markdown !== undefined) {
+    throw new Error("Pass either html or markdown, not both");
+  }
+  const html =
+    input.html ?? (input.markdown !== undefined ? renderMarkdown(input.markdown) : null);
 
-  if (error) throw new Error(error.message);
-  return { messageId: data?.id ?? "" };
+  if (input.body) return { text: input.body, html };
+  if (html) return { text: htmlToText(html), html };
+  if (input.body === undefined) {
+    throw new Error("One of body, html or markdown is required");
+  }
+  return { text: input.body, html: null };
 }
 
 // ---------------------------------------------------------------------------
@@ -190,16 +211,21 @@ async function resolveAttachments(
       const obj = await env.ATTACHMENTS.get(meta.r2_key);
       if (!obj) throw new Error(`R2 object ${meta.r2_key} not found`);
 
-      const buf = await obj.arrayBuffer();
-      const base64 = btoa(
-        String.fromCharCode(...new Uint8Array(buf))
-      );
+      const bytes = new Uint8Array(await obj.arrayBuffer());
+      const filename = meta.filename ?? att.filename;
       resolved.push({
-        content: base64,
-        filename: meta.filename ?? att.filename,
+        content: bytesToBase64(bytes),
+        filename,
+        contentType: detectContentType(bytes, filename, meta.content_type),
+        ...(att.content_id ? { contentId: att.content_id } : {}),
       });
     } else if (att.content) {
-      resolved.push({ content: att.content, filename: att.filename });
+      resolved.push({
+        content: att.content,
+        filename: att.filename,
+        contentType: detectBase64ContentType(att.content, att.filename, att.content_type),
+        ...(att.content_id ? { contentId: att.content_id } : {}),
+      });
     }
   }
 
@@ -207,139 +233,754 @@ async function resolveAttachments(
 }
 
 // ---------------------------------------------------------------------------
-// Public API
+// Delivery and retries
 // ---------------------------------------------------------------------------
 
-export async function sendEmail(
+/** Transient provider errors are retried after 1, 2, 4 and 8 minutes */
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+
+/** A message still "sending" after this long was interrupted mid-send */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/** The fields of an outbound message row that delivery needs */
+interface OutboundMessage {
+  id: string;
+  thread_id: string;
+  message_id: string | null;
+  to: string;
+  subject: string;
+}
+
+/** Reload a stored outbound message's attachments for a retry */
+async function loadStoredAttachments(
   env: Env,
   db: Kysely<Database>,
-  params: SendEmailParams
-): Promise<{ messageId: string; dbId: string; threadId: string }> {
-  const now = Date.now();
+  dbId: string
+): Promise<ResolvedAttachment[]> {
+  const rows = await db
+    .selectFrom("attachments")
+    .selectAll()
+    .where("message_id", "=", dbId)
+    .orderBy("created_at", "asc")
+    .orderBy(sql`rowid`)
+    .execute();
 
-  const resolved = await resolveAttachments(env, db, params.attachments);
-  const sender = getSenderConfig(env);
+  return Promise.all(
+    rows.map(async (row) => {
+      const obj = await env.ATTACHMENTS.get(row.r2_key);
+      if (!obj) throw new Error(`R2 object ${row.r2_key} not found`);
+      return {
+        content: bytesToBase64(new Uint8Array(await obj.arrayBuffer())),
+        filename: row.filename ?? "attachment",
+        contentType: row.content_type ?? undefined,
+        ...(row.disposition === "inline" && row.content_id ? { contentId: row.content_id } : {}),
+      };
+    })
+  );
+}
 
-  const headers: Record<string, string> = {};
-  if (params.inReplyTo) headers["In-Reply-To"] = params.inReplyTo;
-  if (params.references) headers["References"] = params.references;
-
-  const result = await providerSend(env, {
-    from: sender.from,
-    to: Array.isArray(params.to) ? params.to : [params.to],
-    cc: params.cc
-      ? Array.isArray(params.cc)
-        ? params.cc
-        : [params.cc]
-      : undefined,
-    bcc: params.bcc
-      ? Array.isArray(params.bcc)
-        ? params.bcc
-        : [params.bcc]
-      : undefined,
-    subject: params.subject,
-    text: params.body,
-    replyTo: params.replyTo ?? sender.replyTo,
-    headers: Object.keys(headers).length > 0 ? headers : undefined,
-    attachments: resolved.length > 0 ? resolved : undefined,
-  });
+/** Give up on a message: record the error and fire message.failed */
+async function markFailed(
+  env: Env,
+  db: Kysely<Database>,
+  message: OutboundMessage,
+  attempts: number,
+  error: string
+): Promise<SendResult> {
+  await db
+    .updateTable("messages")
+    .set({
+      status: "failed",
+      send_attempts: attempts,
+      last_error: error,
+      next_attempt_at: null,
+      send_params: null,
+    })
+    .where("id", "=", message.id)
+    .execute();
+
+  if (env.WEBHOOK_URL) {
+    await dispatchWebhook(env.WEBHOOK_URL, env.WEBHOOK_SECRET, "message.failed", {
+      id: message.id,
+      thread_id: message.thread_id,
+      to: message.to,
+      subject: message.subject,
+      error,
+      attempts,
+    });
+  }
+
+  return {
+    messageId: message.message_id ?? "",
+    providerMessageId: null,
+    dbId: message.id,
+    threadId: message.thread_id,
+    status: "failed",
+    last_error: error,
+  };
+}
+
+/**
+ * Record the outcome of handing a stored message to the provider. Transient
+ * errors leave it "retrying" with a backoff (via SEND_QUEUE when bound,
+ * otherwise picked up by the per-minute cron); other errors, or running out
+ * of attempts, fail it.
+ */
+async function recordDelivery(
+  env: Env,
+  db: Kysely<Database>,
+  message: OutboundMessage,
+  previousAttempts: number,
+  outcome: ProviderSendResult | Error
+): Promise<SendResult> {
+  const attempts = previousAttempts + 1;
+
+  if (outcome instanceof Error) {
+    const error = outcome.message;
+    const transient = outcome instanceof ProviderError && outcome.transient;
+    if (!transient || attempts >= MAX_SEND_ATTEMPTS) {
+      return markFailed(env, db, message, attempts, error);
+    }
 
-  // Create or join thread
-  const threadId = params.threadId ?? crypto.randomUUID();
-  if (params.threadId) {
+    const delay = RETRY_BASE_MS * 2 ** (attempts - 1);
     await db
-      .updateTable("threads")
+      .updateTable("messages")
       .set({
-        last_message_at: now,
-        message_count: sql`message_count + 1` as any,
+        status: "retrying",
+        send_attempts: attempts,
+        last_error: error,
+        next_attempt_at: Date.now() + delay,
       })
-      .where("id", "=", params.threadId)
+      .where("id", "=", message.id)
       .execute();
+
+    if (env.SEND_QUEUE) {
+      try {
+        await env.SEND_QUEUE.send(
+          { message_id: message.id },
+          { delaySeconds: Math.ceil(delay / 1000) }
+        );
+      } catch (queueErr) {
+        // The cron sweep will still pick it up
+        console.error(`Failed to enqueue retry for ${message.id}:`, queueErr);
+      }
+    }
+
+    return {
+      messageId: message.message_id ?? "",
+      providerMessageId: null,
+      dbId: message.id,
+      threadId: message.thread_id,
+      status: "retrying",
+      last_error: error,
+    };
+  }
+
+  const messageId = outcome.rfcMessageId ?? message.message_id;
+  await db
+    .updateTable("messages")
+    .set({
+      ...(outcome.fromEmail ? { from: outcome.fromEmail } : {}),
+      status: "sent",
+      message_id: messageId,
+      provider_message_id: outcome.messageId || null,
+      send_attempts: attempts,
+      last_error: null,
+      next_attempt_at: null,
+      send_params: null,
+    })
+    .where("id", "=", message.id)
+    .execute();
+
+  return {
+    messageId: messageId ?? "",
+    providerMessageId: outcome.messageId || null,
+    dbId: message.id,
+    threadId: message.thread_id,
+    status: "sent",
+  };
+}
+
+/** Hand a stored message to the provider and record the outcome */
+async function attemptDelivery(
+  env: Env,
+  db: Kysely<Database>,
+  message: OutboundMessage,
+  params: ProviderSendParams,
+  previousAttempts: number
+): Promise<SendResult> {
+  let outcome: ProviderSendResult | Error;
+  try {
+    outcome = await providerSend(env, params);
+  } catch (err) {
+    outcome = err as Error;
+  }
+  return recordDelivery(env, db, message, previousAttempts, outcome);
+}
+
+/** All recipients of a provider request */
+function allRecipients(params: ProviderSendParams): string[] {
+  return [...params.to, ...(params.cc ?? []), ...(params.bcc ?? [])];
+}
+
+/**
+ * Park a stored message as "pending_outbound" until it is approved. Its
+ * send_params stay, so approval sends it exactly as it was composed.
+ */
+async function holdForApproval(
+  db: Kysely<Database>,
+  message: OutboundMessage,
+  reason: string
+): Promise<SendResult> {
+  await db
+    .updateTable("messages")
+    .set({ status: "pending_outbound", approval_reason: reason, next_attempt_at: null })
+    .where("id", "=", message.id)
+    .execute();
+
+  return {
+    messageId: message.message_id ?? "",
+    providerMessageId: null,
+    dbId: message.id,
+    threadId: message.thread_id,
+    status: "pending_outbound",
+    approval_reason: reason,
+  };
+}
+
+/** First delivery of a new message, unless OUTBOUND_APPROVAL_POLICY holds it */
+async function deliverOrHold(
+  env: Env,
+  db: Kysely<Database>,
+  message: OutboundMessage,
+  params: ProviderSendParams
+): Promise<SendResult> {
+  const reason = await outboundHoldReason(env, db, allRecipients(params));
+  if (reason) return holdForApproval(db, message, reason);
+  return attemptDelivery(env, db, message, params, 0);
+}
+
+/** Rebuild the provider request of a stored, claimed message and send it */
+async function resumeDelivery(
+  env: Env,
+  db: Kysely<Database>,
+  dbId: string
+): Promise<SendResult> {
+  const message = await db
+    .selectFrom("messages")
+    .select(["id", "thread_id", "message_id", "to", "subject", "send_params", "send_attempts"])
+    .where("id", "=", dbId)
+    .executeTakeFirstOrThrow();
+
+  let params: ProviderSendParams;
+  try {
+    params = JSON.parse(message.send_params!) as ProviderSendParams;
+    // A recipient may have bounced or complained since the message was stored
+    await assertNotSuppressed(db, allRecipients(params));
+    const attachments = await loadStoredAttachments(env, db, dbId);
+    if (attachments.length > 0) params.attachments = attachments;
+  } catch (err) {
+    return markFailed(env, db, message, message.send_attempts, (err as Error).message);
+  }
+
+  return attemptDelivery(env, db, message, params, message.send_attempts);
+}
+
+/**
+ * Retry a message waiting in "retrying". The message is claimed by flipping
+ * it to "sending" first, so the queue consumer and the cron sweep never send
+ * it twice. Returns null if it isn't due (or was already claimed).
+ */
+export async function retryDelivery(
+  env: Env,
+  db: Kysely<Database>,
+  dbId: string
+): Promise<SendResult | null> {
+  const now = Date.now();
+  const claimed = await db
+    .updateTable("messages")
+    .set({ status: "sending", next_attempt_at: now })
+    .where("id", "=", dbId)
+    .where("status", "=", "retrying")
+    .where("next_attempt_at", "<=", now)
+    .execute();
+  if (Number(claimed[0]?.numUpdatedRows ?? 0) === 0) return null;
+
+  return resumeDelivery(env, db, dbId);
+}
+
+/**
+ * Retry every message whose backoff has elapsed. Called from the scheduled()
+ * handler every minute; the only retry path when SEND_QUEUE isn't bound, and
+ * a backstop for lost queue messages when it is.
+ */
+export async function retryDueSends(
+  env: Env,
+  db: Kysely<Database>,
+  limit = 25
+): Promise<{ sent: number; retrying: number; failed: number }> {
+  const now = Date.now();
+  const counts = { sent: 0, retrying: 0, failed: 0 };
+
+  // A worker that died mid-send may or may not have handed the message to
+  // the provider; fail it rather than risk a duplicate send
+  const stale = await db
+    .selectFrom("messages")
+    .select(["id", "thread_id", "message_id", "to", "subject", "send_attempts"])
+    .where("status", "=", "sending")
+    .where("next_attempt_at", "<", now - STALE_SENDING_MS)
+    .execute();
+  for (const message of stale) {
+    await markFailed(env, db, message, message.send_attempts, "Interrupted while sending");
+    counts.failed++;
+  }
+
+  const due = await db
+    .selectFrom("messages")
+    .select("id")
+    .where("status", "=", "retrying")
+    .where("next_attempt_at", "<=", now)
+    .orderBy("next_attempt_at", "asc")
+    .limit(limit)
+    .execute();
+
+  for (const { id } of due) {
+    const result = await retryDelivery(env, db, id);
+    // Retries are never held for approval again
+    if (result && result.status !== "pending_outbound") counts[result.status]++;
+  }
+
+  return counts;
+}
+
+// ---------------------------------------------------------------------------
+// Outbound approval
+// ---------------------------------------------------------------------------
+
+/** Messages held by OUTBOUND_APPROVAL_POLICY, oldest first */
+export async function listPendingOutbound(
+  db: Kysely<Database>,
+  options: { limit?: number; offset?: number } = {}
+): Promise<Message[]> {
+  return db
+    .selectFrom("messages")
+    .selectAll()
+    .where("status", "=", "pending_outbound")
+    .orderBy("created_at", "asc")
+    .limit(options.limit ?? 50)
+    .offset(options.offset ?? 0)
+    .execute();
+}
+
+async function pendingOutboundError(
+  db: Kysely<Database>,
+  dbId: string
+): Promise<{ error: string }> {
+  const message = await db
+    .selectFrom("messages")
+    .select("status")
+    .where("id", "=", dbId)
+    .where("direction", "=", "outbound")
+    .executeTakeFirst();
+  if (!message) return { error: "Message not found" };
+  return { error: `Message is not pending approval (status: ${message.status})` };
+}
+
+/**
+ * Approve a held message and send it now. It is claimed by flipping it to
+ * "sending" first, so approving twice never sends it twice.
+ */
+export async function approveOutbound(
+  env: Env,
+  db: Kysely<Database>,
+  dbId: string
+): Promise<SendResult | { error: string }> {
+  const claimed = await db
+    .updateTable("messages")
+    .set({ status: "sending", next_attempt_at: Date.now() })
+    .where("id", "=", dbId)
+    .where("status", "=", "pending_outbound")
+    .execute();
+  if (Number(claimed[0]?.numUpdatedRows ?? 0) === 0) return pendingOutboundError(db, dbId);
+
+  return resumeDelivery(env, db, dbId);
+}
+
+/** Reject a held message. It stays in its thread with status "rejected". */
+export async function rejectOutbound(
+  db: Kysely<Database>,
+  dbId: string,
+  note?: string
+): Promise<Message | { error: string }> {
+  const result = await db
+    .updateTable("messages")
+    .set({
+      status: "rejected",
+      last_error: note ? `Rejected: ${note}` : "Rejected",
+      send_params: null,
+    })
+    .where("id", "=", dbId)
+    .where("status", "=", "pending_outbound")
+    .execute();
+  if (Number(result[0]?.numUpdatedRows ?? 0) === 0) return pendingOutboundError(db, dbId);
+
+  return db
+    .selectFrom("messages")
+    .selectAll()
+    .where("id", "=", dbId)
+    .executeTakeFirstOrThrow();
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** An attachment already stored in R2 once and sent with several messages */
+interface SharedAttachment {
+  attachment: ResolvedAttachment;
+  r2Key: string;
+  size: number;
+}
+
+/** A composed outbound message, ready to be stored */
+interface ComposedOutbound {
+  /** Thread to join, or null to start one with the message's subject */
+  threadId: string | null;
+  sender: Awaited<ReturnType<typeof resolveSender>>;
+  params: ProviderSendParams;
+  content: { text: string; html: string | null };
+  attachments: ResolvedAttachment[];
+  /** Sent ahead of `attachments`; the rows point at the existing R2 objects */
+  shared?: SharedAttachment[];
+  inReplyTo: string | null;
+  references: string[];
+  mailboxTag?: string | null;
+  forwardedFrom?: string | null;
+}
+
+/**
+ * Store a composed outbound message (status "sending") with its thread and
+ * attachments, ready to hand to the provider. Size, suppression and
+ * attachment encoding are all checked first, and the thread, message and
+ * attachment rows are written as one D1 batch, so a rejected message leaves
+ * nothing behind.
+ */
+async function persistOutbound(
+  env: Env,
+  db: Kysely<Database>,
+  composed: ComposedOutbound
+): Promise<{ message: OutboundMessage; params: ProviderSendParams }> {
+  const shared = composed.shared ?? [];
+  const attachments = [...shared.map((s) => s.attachment), ...composed.attachments];
+  const { params } = composed;
+  const now = Date.now();
+
+  // Reject an oversized message, or one to a suppressed address, before anything is stored
+  providersForMessage(env, { ...params, attachments });
+  await assertNotSuppressed(db, allRecipients(params));
+
+  const dbId = crypto.randomUUID();
+  const threadId = composed.threadId ?? crypto.randomUUID();
+  const messageId = params.headers?.["Message-ID"] ?? null;
+  const to = params.to.join(", ");
+
+  // Decoding throws on invalid base64, so do it all before the first write
+  const blobs = composed.attachments.map((att) => {
+    const attId = crypto.randomUUID();
+    return { att, attId, r2Key: `${dbId}/${attId}/${att.filename}`, bytes: base64ToBytes(att.content) };
+  });
+
+  const writes: Compilable[] = [];
+  if (composed.threadId) {
+    writes.push(
+      db
+        .updateTable("threads")
+        .set({
+          last_message_at: now,
+          message_count: sql`message_count + 1` as any,
+        })
+        .where("id", "=", composed.threadId)
+    );
   } else {
-    await db
-      .insertInto("threads")
-      .values({
+    writes.push(
+      db.insertInto("threads").values({
         id: threadId,
         subject: params.subject,
+        normalized_subject: normalizeSubject(params.subject).subject,
         last_message_at: now,
         message_count: 1,
         created_at: now,
       })
-      .execute();
+    );
   }
 
-  // Store outbound message
-  const dbId = crypto.randomUUID();
-  const toStr = Array.isArray(params.to) ? params.to.join(", ") : params.to;
-  const ccStr = params.cc
-    ? Array.isArray(params.cc)
-      ? params.cc.join(", ")
-      : params.cc
-    : null;
-  const bccStr = params.bcc
-    ? Array.isArray(params.bcc)
-      ? params.bcc.join(", ")
-      : params.bcc
-    : null;
-
-  await db
-    .insertInto("messages")
-    .values({
+  writes.push(
+    db.insertInto("messages").values({
       id: dbId,
       thread_id: threadId,
-      message_id: result.messageId || null,
-      in_reply_to: params.inReplyTo ?? null,
-      from: sender.fromEmail,
-      to: toStr,
-      cc: ccStr,
-      bcc: bccStr,
+      message_id: messageId,
+      in_reply_to: composed.inReplyTo,
+      references: composed.references.join(" ") || null,
+      from: composed.sender.fromEmail,
+      to,
+      cc: params.cc?.join(", ") || null,
+      bcc: params.bcc?.join(", ") || null,
       subject: params.subject,
-      body_text: params.body,
-      body_html: null,
-      headers: params.inReplyTo
-        ? JSON.stringify(headers)
-        : null,
+      body_text: composed.content.text,
+      body_html: composed.content.html,
+      headers: JSON.stringify(params.headers ?? {}),
       direction: "outbound",
       approved: 1,
-      status: "sent",
+      status: "sending",
       archived: 0,
+      mailbox_id: composed.sender.mailboxId,
+      mailbox_tag: composed.mailboxTag ?? null,
+      send_attempts: 0,
+      next_attempt_at: now,
+      send_params: JSON.stringify(params),
+      forwarded_from: composed.forwardedFrom ?? null,
       created_at: now,
     })
-    .execute();
+  );
 
-  // Store outbound attachments in R2
-  if (resolved.length > 0) {
-    for (const att of resolved) {
-      const attId = crypto.randomUUID();
-      const r2Key = `${dbId}/${attId}/${att.filename}`;
-      const buf = Uint8Array.from(atob(att.content), (c) => c.charCodeAt(0));
-      await env.ATTACHMENTS.put(r2Key, buf);
-
-      await db
-        .insertInto("attachments")
-        .values({
-          id: attId,
-          message_id: dbId,
-          filename: att.filename,
-          content_type: null,
-          size: buf.byteLength,
-          r2_key: r2Key,
-          created_at: now,
-        })
-        .execute();
+  // Shared attachments get their own rows pointing at the one R2 object
+  const parts = [
+    ...shared.map((s) => ({
+      att: s.attachment,
+      attId: crypto.randomUUID(),
+      r2Key: s.r2Key,
+      size: s.size,
+    })),
+    ...blobs.map((b) => ({ att: b.att, attId: b.attId, r2Key: b.r2Key, size: b.bytes.byteLength })),
+  ];
+  const rows: NewAttachment[] = parts.map(({ att, attId, r2Key, size }) => ({
+    id: attId,
+    message_id: dbId,
+    filename: att.filename,
+    content_type: att.contentType ?? null,
+    size,
+    r2_key: r2Key,
+    disposition: att.contentId ? "inline" : "attachment",
+    content_id: att.contentId ?? null,
+    created_at: now,
+  }));
+  for (const row of rows) writes.push(db.insertInto("attachments").values(row));
+
+  // Blobs go to R2 first; if the batch fails they are removed again (and
+  // anything left behind by a crash is cleaned by reconcileAttachments)
+  for (const { r2Key, bytes } of blobs) await env.ATTACHMENTS.put(r2Key, bytes);
+  try {
+    await executeBatch(env.DB, writes);
+  } catch (err) {
+    if (blobs.length > 0) await env.ATTACHMENTS.delete(blobs.map((b) => b.r2Key));
+    throw err;
+  }
+
+  return {
+    message: { id: dbId, thread_id: threadId, message_id: messageId, to, subject: params.subject },
+    params: { ...params, attachments: attachments.length > 0 ? attachments : undefined },
+  };
+}
+
+/** Optional recipients given as one address or a list */
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Compose and store a new outbound message from send parameters */
+async function storeOutbound(
+  env: Env,
+  db: Kysely<Database>,
+  params: SendEmailParams,
+  shared: SharedAttachment[] = []
+): Promise<{ message: OutboundMessage; params: ProviderSendParams }> {
+  const content = resolveBody(params);
+  const resolved = await resolveAttachments(env, db, params.attachments);
+  const sender = await resolveSender(env, db, params.mailbox);
+
+  const messageId = generateMessageId(sender.fromEmail);
+  const references = parseMessageIds(params.references);
+  const headers: Record<string, string> = { "Message-ID": messageId };
+  if (params.inReplyTo) headers["In-Reply-To"] = params.inReplyTo;
+  if (references.length > 0) headers["References"] = formatReferences(references);
+
+  return persistOutbound(env, db, {
+    threadId: params.threadId ?? null,
+    sender,
+    params: {
+      from: sender.from,
+      to: Array.isArray(params.to) ? params.to : [params.to],
+      cc: toList(params.cc),
+      bcc: toList(params.bcc),
+      subject: params.subject,
+      text: content.text,
+      html: content.html ?? undefined,
+      // On the default identity the provider that sends it fills in Reply-To
+      replyTo: params.replyTo,
+      headers,
+      calendar: params.calendar,
+      defaultSender: !sender.mailboxId,
+    },
+    content,
+    attachments: resolved,
+    shared,
+    inReplyTo: params.inReplyTo ?? null,
+    references,
+    forwardedFrom: params.forwardedFrom ?? null,
+  });
+}
+
+/**
+ * Resolve attachments sent with every message of a batch and put each in R2
+ * once; the messages' attachment rows all point at the same object. Objects
+ * no message ends up using are removed by reconcileAttachments.
+ */
+async function storeSharedAttachments(
+  env: Env,
+  db: Kysely<Database>,
+  inputs: AttachmentInput[]
+): Promise<SharedAttachment[]> {
+  const resolved = await resolveAttachments(env, db, inputs);
+  const batchId = crypto.randomUUID();
+  // Decoding throws on invalid base64, so do it all before the first put
+  const shared = resolved.map((attachment, i) => ({
+    attachment,
+    r2Key: `batch/${batchId}/${i}/${attachment.filename}`,
+    bytes: base64ToBytes(attachment.content),
+  }));
+  for (const { r2Key, bytes } of shared) await env.ATTACHMENTS.put(r2Key, bytes);
+  return shared.map(({ attachment, r2Key, bytes }) => ({ attachment, r2Key, size: bytes.byteLength }));
+}
+
+/**
+ * Send an email. The message is stored (status "sending") before the
+ * provider is called, so a provider error never loses it: check `status` on
+ * the result for "retrying" or "failed".
+ */
+export async function sendEmail(
+  env: Env,
+  db: Kysely<Database>,
+  params: SendEmailParams
+): Promise<SendResult> {
+  const stored = await storeOutbound(env, db, params);
+  return deliverOrHold(env, db, stored.message, stored.params);
+}
+
+/**
+ * Send many independent emails, each in its own thread, through the
+ * providers' batch APIs. Every message is stored first, like sendEmail; one
+ * that can't be built (bad body, missing attachment, too large) gets an
+ * error entry without stopping the rest. `sharedAttachments` go with every
+ * message but are fetched and stored only once. Results are in input order.
+ */
+export async function sendBatch(
+  env: Env,
+  db: Kysely<Database>,
+  messages: SendEmailParams[],
+  sharedAttachments: AttachmentInput[] = []
+): Promise<(SendResult | { error: string })[]> {
+  const results: (SendResult | { error: string })[] = new Array(messages.length);
+  const stored: { index: number; message: OutboundMessage; params: ProviderSendParams }[] = [];
+  if (messages.length === 0) return results;
+
+  let shared: SharedAttachment[];
+  try {
+    shared = await storeSharedAttachments(env, db, sharedAttachments);
+  } catch (err) {
+    return messages.map(() => ({ error: (err as Error).message }));
+  }
+
+  for (const [index, params] of messages.entries()) {
+    let entry;
+    try {
+      entry = await storeOutbound(env, db, { ...params, threadId: undefined }, shared);
+    } catch (err) {
+      results[index] = { error: (err as Error).message };
+      continue;
     }
+
+    const reason = await outboundHoldReason(env, db, allRecipients(entry.params));
+    if (reason) results[index] = await holdForApproval(db, entry.message, reason);
+    else stored.push({ index, ...entry });
   }
+  if (stored.length === 0) return results;
 
-  return { messageId: result.messageId, dbId, threadId };
+  // Per-chunk failures come back per message; this only catches errors
+  // raised before any chunk was sent (e.g. no provider configured)
+  let outcomes: (ProviderSendResult | Error)[];
+  try {
+    outcomes = await providerSendBatch(env, stored.map((s) => s.params));
+  } catch (err) {
+    outcomes = stored.map(() => err as Error);
+  }
+
+  for (const [i, { index, message }] of stored.entries()) {
+    results[index] = await recordDelivery(env, db, message, 0, outcomes[i]);
+  }
+  return results;
+}
+
+/**
+ * To/Cc for a reply. An inbound message is answered at its Reply-To (or
+ * From); a reply to our own outbound message goes back to its recipients.
+ * `options.to` overrides either.
+ * With `replyAll`, everyone else on the original is Cc'd, minus our own
+ * addresses and duplicates.
+ */
+async function replyRecipients(
+  env: Env,
+  db: Kysely<Database>,
+  original: Message,
+  options: ReplyOptions
+): Promise<{ to: string[]; cc: string[]; bcc: string[] }> {
+  let to: string[];
+  let others: string[];
+  if (original.direction === "inbound") {
+    const headers: { key: string; value: string }[] = original.headers
+      ? JSON.parse(original.headers)
+      : [];
+    const replyTo = parseAddressList(
+      headers.find((h) => h.key.toLowerCase() === "reply-to")?.value
+    );
+    to = replyTo.length > 0 ? replyTo : [original.from];
+    others = [...parseAddressList(original.to), ...parseAddressList(original.cc)];
+  } else {
+    to = parseAddressList(original.to);
+    others = parseAddressList(original.cc);
+  }
+  if (options.to) {
+    to = parseAddressList(Array.isArray(options.to) ? options.to.join(", ") : options.to);
+  }
+
+  const explicitCc = parseAddressList(
+    Array.isArray(options.cc) ? options.cc.join(", ") : options.cc
+  );
+  const bcc = parseAddressList(
+    Array.isArray(options.bcc) ? options.bcc.join(", ") : options.bcc
+  );
+
+  const own = options.replyAll ? await listOwnAddresses(env, db) : new Set<string>();
+  const seen = new Set(to);
+  const cc: string[] = [];
+  for (const addr of [...(options.replyAll ? others : []), ...explicitCc]) {
+    if (seen.has(addr) || own.has(parsePlusAddress(addr).base)) continue;
+    seen.add(addr);
+    cc.push(addr);
+  }
+
+  return { to, cc, bcc: bcc.filter((addr) => !seen.has(addr)) };
 }
 
 export async function replyToMessage(
   env: Env,
   db: Kysely<Database>,
   messageId: string,
-  body: string,
-  attachments?: AttachmentInput[]
-): Promise<{ messageId: string; dbId: string }> {
+  body: string | MessageBody,
+  attachments?: AttachmentInput[],
+  options: ReplyOptions = {}
+): Promise<SendResult> {
   const original = await db
     .selectFrom("messages")
     .selectAll()
@@ -348,100 +989,171 @@ export async function replyToMessage(
 
   if (!original) throw new Error(`Message ${messageId} not found`);
 
-  const now = Date.now();
+  const content = resolveBody(typeof body === "string" ? { body } : body);
+  const resolved = await resolveAttachments(env, db, attachments);
+  // Reply from the mailbox (and plus tag) the original was received on
+  const sender = await resolveSender(
+    env,
+    db,
+    original.mailbox_id,
+    original.mailbox_tag
+  );
 
   // Build threading headers
-  const inReplyTo = original.message_id ?? undefined;
-  const references = original.message_id
-    ? original.in_reply_to
-      ? `${original.in_reply_to} ${original.message_id}`
-      : original.message_id
-    : undefined;
-
-  const replyHeaders: Record<string, string> = {};
-  if (inReplyTo) replyHeaders["In-Reply-To"] = inReplyTo;
-  if (references) replyHeaders["References"] = references;
+  const messageIdHeader = generateMessageId(sender.fromEmail);
+  const inReplyTo = original.message_id ? normalizeMessageId(original.message_id) : undefined;
+  const references = buildReferences(original);
 
-  const resolved = await resolveAttachments(env, db, attachments);
-  const sender = getSenderConfig(env);
+  const replyHeaders: Record<string, string> = {
+    ...options.headers,
+    "Message-ID": messageIdHeader,
+  };
+  if (inReplyTo) replyHeaders["In-Reply-To"] = inReplyTo;
+  if (references.length > 0) replyHeaders["References"] = formatReferences(references);
 
-  const replyTo =
-    original.direction === "inbound" ? original.from : original.to;
-  const subject = original.subject.startsWith("Re:")
-    ? original.subject
-    : `Re: ${original.subject}`;
+  const recipients = await replyRecipients(env, db, original, options);
+  const subject =
+    options.subject ??
+    (original.subject.startsWith("Re:")
+      ? original.subject
+      : `Re: ${original.subject}`);
 
-  const result = await providerSend(env, {
-    from: sender.from,
-    to: [replyTo],
-    subject,
-    text: body,
-    replyTo: sender.replyTo,
-    headers:
-      Object.keys(replyHeaders).length > 0 ? replyHeaders : undefined,
-    attachments: resolved.length > 0 ? resolved : undefined,
+  const stored = await persistOutbound(env, db, {
+    threadId: original.thread_id,
+    sender,
+    params: {
+      from: sender.from,
+      to: recipients.to,
+      cc: recipients.cc.length > 0 ? recipients.cc : undefined,
+      bcc: recipients.bcc.length > 0 ? recipients.bcc : undefined,
+      subject,
+      text: content.text,
+      html: content.html ?? undefined,
+      headers: replyHeaders,
+      defaultSender: !sender.mailboxId,
+    },
+    content,
+    attachments: resolved,
+    inReplyTo: inReplyTo ?? null,
+    references,
+    mailboxTag: original.mailbox_tag,
   });
 
-  // Update thread
-  await db
-    .updateTable("threads")
-    .set({
-      last_message_at: now,
-      message_count: sql`message_count + 1` as any,
-    })
-    .where("id", "=", original.thread_id)
-    .execute();
+  return deliverOrHold(env, db, stored.message, stored.params);
+}
 
-  // Store outbound reply
-  const dbId = crypto.randomUUID();
-  await db
-    .insertInto("messages")
-    .values({
-      id: dbId,
-      thread_id: original.thread_id,
-      message_id: result.messageId || null,
-      in_reply_to: inReplyTo ?? null,
-      from: sender.fromEmail,
-      to: replyTo,
-      cc: null,
-      bcc: null,
-      subject,
-      body_text: body,
-      body_html: null,
-      headers:
-        Object.keys(replyHeaders).length > 0
-          ? JSON.stringify(replyHeaders)
-          : null,
-      direction: "outbound",
-      approved: 1,
-      status: "sent",
-      archived: 0,
-      created_at: now,
-    })
+export interface ForwardOptions {
+  cc?: string | string[];
+  bcc?: string | string[];
+  /** Send from this mailbox instead of the one the original arrived on */
+  mailbox?: string;
+}
+
+/** The "Forwarded message" header block, as text lines */
+function forwardedHeaderLines(original: Message): [string, string][] {
+  const lines: [string, string][] = [
+    ["From", original.from],
+    ["Date", new Date(original.created_at).toUTCString()],
+    ["Subject", original.subject],
+    ["To", original.to],
+  ];
+  if (original.cc) lines.push(["Cc", original.cc]);
+  return lines;
+}
+
+/**
+ * Forward a stored message: an optional note, the standard "Forwarded
+ * message" header block, the original text and HTML, and all of its
+ * attachments re-sent from R2, inline images under their Content-IDs. Starts a new thread; the outbound row links
+ * back to the original via forwarded_from.
+ */
+export async function forwardMessage(
+  env: Env,
+  db: Kysely<Database>,
+  messageId: string,
+  to: string | string[],
+  note: MessageBody = {},
+  options: ForwardOptions = {}
+): Promise<SendResult> {
+  const original = await db
+    .selectFrom("messages")
+    .selectAll()
+    .where("id", "=", messageId)
+    .executeTakeFirst();
+
+  if (!original) throw new Error(`Message ${messageId} not found`);
+
+  const hasNote =
+    note.body !== undefined || note.html !== undefined || note.markdown !== undefined;
+  const intro = hasNote ? resolveBody(note) : null;
+  const headerLines = forwardedHeaderLines(original);
+
+  const text = [
+    ...(intro ? [intro.text, ""] : []),
+    "---------- Forwarded message ----------",
+    ...headerLines.map(([name, value]) => `${name}: ${value}`),
+    "",
+    original.body_text ?? (original.body_html ? htmlToText(original.body_html) : ""),
+  ].join("\n");
+
+  // Inbound HTML comes from an untrusted sender: only its sanitized variant
+  // is re-sent under our domain, never the raw body
+  const attachments = await db
+    .selectFrom("attachments")
+    .select(["id", "filename", "content_id"])
+    .where("message_id", "=", messageId)
+    .orderBy("created_at", "asc")
+    .orderBy(sql`rowid`)
     .execute();
 
-  // Store outbound attachments in R2
-  if (resolved.length > 0) {
-    for (const att of resolved) {
-      const attId = crypto.randomUUID();
-      const r2Key = `${dbId}/${attId}/${att.filename}`;
-      const buf = Uint8Array.from(atob(att.content), (c) => c.charCodeAt(0));
-      await env.ATTACHMENTS.put(r2Key, buf);
-
-      await db
-        .insertInto("attachments")
-        .values({
-          id: attId,
-          message_id: dbId,
-          filename: att.filename,
-          content_type: null,
-          size: buf.byteLength,
-          r2_key: r2Key,
-          created_at: now,
-        })
-        .execute();
-    }
+  // Sanitizing pointed inline images at /api/attachments/:id, which needs our
+  // API key; point them back at the re-sent parts' Content-IDs
+  let originalBodyHtml =
+    original.direction === "inbound" ? original.body_html_sanitized : original.body_html;
+  for (const att of attachments) {
+    if (!originalBodyHtml || !att.content_id) continue;
+    originalBodyHtml = originalBodyHtml
+      .split(`/api/attachments/${att.id}`)
+      .join(`cid:${att.content_id}`);
+  }
+
+  // Only build an HTML part when the note or the original has one
+  let html: string | undefined;
+  if (intro?.html || originalBodyHtml) {
+    const introHtml = intro
+      ? (intro.html ?? `<div style="white-space:pre-wrap">${escapeHtml(intro.text)}</div>`)
+      : "";
+    const originalHtml =
+      originalBodyHtml ??
+      `<div style="white-space:pre-wrap">${escapeHtml(original.body_text ?? "")}</div>`;
+    const header = headerLines
+      .map(([name, value]) => `${name}: ${escapeHtml(value)}<br>`)
+      .join("\n");
+    html = [
+      ...(introHtml ? [introHtml, "<br><br>"] : []),
+      `<div>---------- Forwarded message ----------<br>\n${header}</div><br>`,
+      originalHtml,
+    ].join("\n");
   }
 
-  return { messageId: result.messageId, dbId };
+  const subject = /^fwd?:/i.test(original.subject)
+    ? original.subject
+    : `Fwd: ${original.subject}`;
+
+  return sendEmail(env, db, {
+    to,
+    cc: options.cc,
+    bcc: options.bcc,
+    subject,
+    body: text,
+    html,
+    // Forward from the mailbox the original arrived on
+    mailbox: options.mailbox ?? original.mailbox_id ?? undefined,
+    attachments: attachments.map((att) => ({
+      attachment_id: att.id,
+      filename: att.filename ?? "attachment",
+      ...(att.content_id ? { content_id: att.content_id } : {}),
+    })),
+    forwardedFrom: original.id,
+  });
 }
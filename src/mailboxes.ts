@@ -0,0 +1,181 @@
+import type { Kysely } from "kysely";
+import type { Database, Mailbox } from "./db/schema";
+import type { Env } from "./types";
+
+/** Split "agent+project@example.com" into base address and plus tag */
+export function parsePlusAddress(
+  address: string
+): { base: string; tag: string | null } {
+  const addr = address.trim().toLowerCase();
+  const at = addr.lastIndexOf("@");
+  if (at === -1) return { base: addr, tag: null };
+
+  const local = addr.slice(0, at);
+  const domain = addr.slice(at + 1);
+  const plus = local.indexOf("+");
+  if (plus === -1) return { base: addr, tag: null };
+
+  return {
+    base: `${local.slice(0, plus)}@${domain}`,
+    tag: local.slice(plus + 1) || null,
+  };
+}
+
+/**
+ * Addresses in an address-list header or stored recipient string
+ * ("Ann <ann@x.com>, bob@y.com"), lowercased. Commas inside quoted display
+ * names are not treated as separators.
+ */
+export function parseAddressList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  let angle = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === "<" && !quoted) angle = true;
+    else if (ch === ">" && !quoted) angle = false;
+    if (ch === "," && !quoted && !angle) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => (part.match(/<([^>]*)>/)?.[1] ?? part).trim().toLowerCase())
+    .filter((addr) => addr.includes("@"));
+}
+
+/**
+ * Assign an inbound message to a mailbox. Recipients are checked in order
+ * (envelope recipient first, then To, then Cc) and the first one whose base
+ * address is a known mailbox wins.
+ */
+export async function resolveMailbox(
+  db: Kysely<Database>,
+  recipients: string[]
+): Promise<{ mailbox: Mailbox; tag: string | null } | null> {
+  const parsed = recipients.filter(Boolean).map(parsePlusAddress);
+  if (parsed.length === 0) return null;
+
+  const mailboxes = await db
+    .selectFrom("mailboxes")
+    .selectAll()
+    .where("address", "in", [...new Set(parsed.map((p) => p.base))])
+    .execute();
+
+  for (const { base, tag } of parsed) {
+    const mailbox = mailboxes.find((m) => m.address === base);
+    if (mailbox) return { mailbox, tag };
+  }
+  return null;
+}
+
+/** Subquery selecting the id of a mailbox given its id or address */
+export function mailboxIdQuery(db: Kysely<Database>, idOrAddress: string) {
+  return db
+    .selectFrom("mailboxes")
+    .select("id")
+    .where((eb) =>
+      eb.or([
+        eb("id", "=", idOrAddress),
+        eb("address", "=", idOrAddress.trim().toLowerCase()),
+      ])
+    );
+}
+
+export async function getMailbox(
+  db: Kysely<Database>,
+  idOrAddress: string
+): Promise<Mailbox | null> {
+  return (
+    (await db
+      .selectFrom("mailboxes")
+      .selectAll()
+      .where("id", "in", mailboxIdQuery(db, idOrAddress))
+      .executeTakeFirst()) ?? null
+  );
+}
+
+export async function createMailbox(
+  db: Kysely<Database>,
+  address: string,
+  name: string | null
+): Promise<Mailbox> {
+  const { base } = parsePlusAddress(address);
+  const mailbox: Mailbox = {
+    id: crypto.randomUUID(),
+    address: base,
+    name,
+    created_at: Date.now(),
+  };
+
+  await db
+    .insertInto("mailboxes")
+    .values(mailbox)
+    .onConflict((oc) => oc.column("address").doUpdateSet({ name }))
+    .execute();
+
+  return (await getMailbox(db, base))!;
+}
+
+export async function listMailboxes(db: Kysely<Database>): Promise<Mailbox[]> {
+  return db
+    .selectFrom("mailboxes")
+    .selectAll()
+    .orderBy("created_at", "asc")
+    .execute();
+}
+
+/**
+ * Every address this worker sends or receives as (configured senders plus all
+ * mailboxes), lowercase and without plus tags. Used to avoid mail loops and to
+ * drop ourselves from reply recipients.
+ */
+export async function listOwnAddresses(
+  env: Env,
+  db: Kysely<Database>
+): Promise<Set<string>> {
+  const own = new Set(
+    [
+      env.FROM_EMAIL,
+      env.REPLY_TO_EMAIL,
+      env.RESEND_FROM_EMAIL,
+      env.RESEND_REPLY_TO_EMAIL,
+    ]
+      .filter((a): a is string => !!a)
+      .map((a) => parsePlusAddress(a).base)
+  );
+  for (const m of await db.selectFrom("mailboxes").select("address").execute()) {
+    own.add(m.address);
+  }
+  return own;
+}
+
+/** Delete a mailbox. Its messages are kept and fall back to the default identity. */
+export async function deleteMailbox(
+  db: Kysely<Database>,
+  idOrAddress: string
+): Promise<boolean> {
+  const mailbox = await getMailbox(db, idOrAddress);
+  if (!mailbox) return false;
+
+  await db
+    .updateTable("messages")
+    .set({ mailbox_id: null })
+    .where("mailbox_id", "=", mailbox.id)
+    .execute();
+  // Responders scoped to this mailbox go with it
+  const responders = db
+    .selectFrom("auto_responders")
+    .select("id")
+    .where("mailbox_id", "=", mailbox.id);
+  await db.deleteFrom("auto_responder_log").where("responder_id", "in", responders).execute();
+  await db.deleteFrom("auto_responders").where("mailbox_id", "=", mailbox.id).execute();
+  await db.deleteFrom("mailboxes").where("id", "=", mailbox.id).execute();
+  return true;
+}
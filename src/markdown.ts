@@ -0,0 +1,186 @@
+// ---------------------------------------------------------------------------
+// Markdown → HTML for outbound mail
+// ---------------------------------------------------------------------------
+//
+// A deliberately small renderer covering what agents write in email:
+// headings, paragraphs, emphasis, inline code, fenced code, block quotes,
+// (nested) lists, links, images and rules. Raw HTML in the source is escaped,
+// and single newlines inside a paragraph become <br> as email readers expect.
+
+import { escapeHtml } from "./html";
+
+function safeUrl(url: string, allowMailto: boolean): string | null {
+  const trimmed = url.trim();
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (allowMailto && /^mailto:/i.test(trimmed)) return trimmed;
+  return null;
+}
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, "<em>$1</em>")
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>");
+}
+
+function renderInline(text: string): string {
+  // Code spans and links are rendered first and stashed behind placeholders
+  // so emphasis and escaping don't touch their contents
+  const stash: string[] = [];
+  const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let out = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_m, _ticks, code: string) =>
+      hold(`<code>${escapeHtml(code.trim())}</code>`)
+    )
+    .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (m, alt: string, url: string) => {
+      const src = safeUrl(url, false);
+      return src ? hold(`<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}">`) : escapeHtml(m);
+    })
+    .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g, (_m, label: string, url: string, title?: string) => {
+      const href = safeUrl(url, true);
+      const inner = renderEmphasis(escapeHtml(label));
+      if (!href) return hold(inner);
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+      return hold(`<a href="${escapeHtml(href)}"${titleAttr}>${inner}</a>`);
+    })
+    .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/gi, (_m, url: string) =>
+      hold(`<a href="${escapeHtml(url)}">${escapeHtml(url.replace(/^mailto:/i, ""))}</a>`)
+    )
+    .replace(/\bhttps?:\/\/[^\s<\u0000]+[^\s<\u0000.,;:!?)'"]/gi, (url) =>
+      hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)
+    );
+
+  out = renderEmphasis(escapeHtml(out))
+    // Hard breaks: trailing backslash or two spaces; plain newlines too
+    .replace(/(?:\\| {2,})?\n/g, "<br>\n");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => stash[Number(i)]);
+}
+
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])[ \t]+(.*)$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+
+/** Remove up to `width` columns of leading indentation from each line */
+function dedent(lines: string[], width: number): string[] {
+  return lines.map((line) => line.replace(new RegExp(`^ {0,${width}}`), ""));
+}
+
+function renderBlocks(lines: string[]): string {
+  const out: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${renderInline(paragraph.join("\n").trim())}</p>`);
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : "";
+      out.push(`<pre><code${lang}>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      out.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && /^ {0,3}>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ""));
+        i++;
+      }
+      out.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[2]);
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      const items: string[] = [];
+
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (!current || /\d/.test(current[2]) !== ordered) break;
+
+        // Continuation lines are indented past the marker; blank lines are
+        // kept only if the list continues after them
+        const width = current[1].length + current[2].length + 1;
+        const body: string[] = [];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (next.trim() && /^\s/.test(next)) {
+            body.push(next);
+            i++;
+          } else if (!next.trim() && i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+            body.push("");
+            i++;
+          } else {
+            break;
+          }
+        }
+
+        const nested = body.length > 0 ? renderBlocks(dedent(body, Math.max(width, 2))) : "";
+        items.push(`<li>${renderInline(current[3])}${nested}</li>`);
+      }
+
+      const tag = ordered ? "ol" : "ul";
+      const startAttr = ordered && start !== 1 ? ` start="${start}"` : "";
+      out.push(`<${tag}${startAttr}>${items.join("")}</${tag}>`);
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return out.join("\n");
+}
+
+/** Render Markdown to an HTML fragment suitable for an email body */
+export function renderMarkdown(markdown: string): string {
+  return renderBlocks(markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"));
+}
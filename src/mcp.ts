@@ -2,10 +2,49 @@ import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getDb } from "./db/client";
-import { sendEmail, replyToMessage } from "./mail";
+import { sendEmail, replyToMessage, forwardMessage } from "./mail";
 import { addLabels, removeLabel } from "./labels";
 import { archiveMessage, unarchiveMessage } from "./archive";
 import { searchMessages } from "./search";
+import { MESSAGE_CATEGORIES } from "./category";
+import { unsubscribe } from "./unsubscribe";
+import {
+  INVITE_RESPONSES,
+  getMessageCalendarEvents,
+  respondToInvite,
+} from "./calendar";
+import { upsertSenderRule, removeSenderRule, listSenderRules } from "./senders";
+import { getSenderAuthPolicy } from "./authresults";
+import {
+  createMailbox,
+  listMailboxes,
+  deleteMailbox,
+  mailboxIdQuery,
+} from "./mailboxes";
+import {
+  ruleUpdateInput,
+  ruleInputSchema,
+  ruleConditionSchema,
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  dryRunRule,
+} from "./rules";
+import {
+  autoResponderInput,
+  autoResponderInputSchema,
+  listAutoResponders,
+  createAutoResponder,
+  updateAutoResponder,
+  deleteAutoResponder,
+} from "./autoresponder";
+import { blockSender, unblockSender, listBlockedSenders } from "./blocklist";
+import { mergeThreads, splitThread } from "./threads";
+import { listSuppressions, suppressAddress, unsuppressAddress } from "./suppressions";
+import { listDeliveryReports } from "./reports";
+import { bytesToBase64, detectContentType } from "./mime";
 import {
   createDraft,
   updateDraft,
@@ -13,6 +52,28 @@ import {
   sendDraft,
   deleteDraft,
 } from "./drafts";
+import {
+  queueEmail,
+  queueDraft,
+  listOutbox,
+  cancelOutboxItem,
+  rescheduleOutboxItem,
+} from "./outbox";
+import {
+  templateInput,
+  templateInputSchema,
+  templateUseSchema,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  applyTemplate,
+  applyDraftTemplate,
+  batchSendInputSchema,
+  sendMailMerge,
+} from "./templates";
+import { parseTimestamp } from "./time";
 import type { Env } from "./types";
 
 /** Split comma-separated string into trimmed, non-empty parts */
@@ -31,45 +92,113 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
     this.server.registerTool(
       "send_email",
       {
-        description: "Send an email",
+        description: "Send an email, optionally filled from a template",
         inputSchema: {
           to: z.string().describe("Recipient email address (comma-separated for multiple)"),
-          subject: z.string().describe("Email subject"),
-          body: z.string().describe("Email body (plain text)"),
+          subject: z.string().optional().describe("Email subject. Required unless template_id is given"),
+          body: z.string().optional().describe("Email body (plain text). Optional when html or markdown is given"),
+          html: z.string().optional().describe("HTML body"),
+          markdown: z.string().optional().describe("Markdown body, rendered to HTML with a plain-text alternative"),
           cc: z.string().optional().describe("CC recipients (comma-separated for multiple)"),
           bcc: z.string().optional().describe("BCC recipients (comma-separated for multiple)"),
+          mailbox: z.string().optional().describe("Send from this mailbox (id or address) instead of the default sender"),
           attachments: z.array(z.object({
             content: z.string().optional().describe("Base64-encoded content"),
             filename: z.string().describe("Filename"),
             attachment_id: z.string().optional().describe("Existing attachment ID to forward from R2"),
           })).optional().describe("Attachments to include"),
+          send_at: z.union([z.number(), z.string()]).optional().describe("Schedule for later: Unix ms timestamp or ISO 8601 date (queued in the outbox)"),
+          timezone: z.string().optional().describe("IANA time zone for a send_at without UTC offset, e.g. 'America/New_York'"),
+          ...templateUseSchema,
         },
       },
-      async ({ to, subject, body, cc, bcc, attachments }) => {
+      async ({ to, subject, body, html, markdown, cc, bcc, mailbox, attachments, send_at, timezone, template_id, variables }) => {
         const db = getDb(this.env.DB);
         const toList = parseCommaSeparated(to);
         const ccList = cc ? parseCommaSeparated(cc) : undefined;
         const bccList = bcc ? parseCommaSeparated(bcc) : undefined;
-        const result = await sendEmail(this.env, db, {
+        const params = await applyTemplate(db, {
           to: toList.length === 1 ? toList[0] : toList,
           subject,
           body,
+          html,
+          markdown,
           cc: ccList && ccList.length === 1 ? ccList[0] : ccList,
           bcc: bccList && bccList.length === 1 ? bccList[0] : bccList,
+          mailbox,
           attachments,
+          template_id,
+          variables,
         });
+        if ("error" in params) {
+          return {
+            content: [{ type: "text" as const, text: params.error }],
+            isError: true,
+          };
+        }
+
+        if (send_at !== undefined) {
+          const item = await queueEmail(this.env, db, params, parseTimestamp(send_at, timezone));
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  status: "queued",
+                  outbox_id: item.id,
+                  send_at: new Date(item.send_at).toISOString(),
+                }),
+              },
+            ],
+          };
+        }
+
+        const result = await sendEmail(this.env, db, params);
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify({
-                status: "sent",
-                resend_id: result.messageId,
+                status: result.status,
+                message_id: result.messageId,
+                provider_id: result.providerMessageId,
                 db_id: result.dbId,
                 thread_id: result.threadId,
+                ...(result.last_error ? { last_error: result.last_error } : {}),
+                ...(result.approval_reason ? { approval_reason: result.approval_reason } : {}),
               }),
             },
           ],
+          ...(result.status === "failed" ? { isError: true } : {}),
+        };
+      }
+    );
+
+    // send_batch
+    this.server.registerTool(
+      "send_batch",
+      {
+        description: "Mail merge: send a shared subject/body (or template) with {{variables}} filled per recipient. Each recipient gets a separate email and thread; returns per-recipient results",
+        inputSchema: batchSendInputSchema,
+      },
+      async (input) => {
+        const db = getDb(this.env.DB);
+        if (input.template_id && !(await getTemplate(db, input.template_id))) {
+          return {
+            content: [{ type: "text" as const, text: "Template not found" }],
+            isError: true,
+          };
+        }
+
+        const result = await sendMailMerge(this.env, db, input);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          ...(result.failed === result.results.length ? { isError: true } : {}),
         };
       }
     );
@@ -85,10 +214,12 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           direction: z.enum(["inbound", "outbound"]).optional().describe("Filter by direction"),
           from: z.string().optional().describe("Filter by sender address"),
           label: z.string().optional().describe("Filter by label"),
+          mailbox: z.string().optional().describe("Filter by mailbox (id or address)"),
+          category: z.enum(MESSAGE_CATEGORIES).optional().describe("Filter by category (personal, list, notification, transactional)"),
           include_archived: z.boolean().optional().default(false).describe("Include archived messages"),
         },
       },
-      async ({ limit, offset, direction, from, label, include_archived }) => {
+      async ({ limit, offset, direction, from, label, mailbox, category, include_archived }) => {
         const db = getDb(this.env.DB);
         let query = db
           .selectFrom("messages")
@@ -101,6 +232,8 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
         if (!include_archived) query = query.where("archived", "=", 0);
         if (direction) query = query.where("direction", "=", direction);
         if (from) query = query.where("from", "=", from);
+        if (mailbox) query = query.where("mailbox_id", "in", mailboxIdQuery(db, mailbox));
+        if (category) query = query.where("category", "=", category);
         if (label) {
           query = query.where("id", "in",
             db.selectFrom("message_labels")
@@ -125,7 +258,7 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
     this.server.registerTool(
       "read_message",
       {
-        description: "Read a single approved email message with attachment metadata and labels",
+        description: "Read a single approved email message with attachment metadata, labels and any calendar invite",
         inputSchema: {
           id: z.string().describe("Message ID"),
         },
@@ -158,6 +291,10 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           .where("message_id", "=", id)
           .execute();
 
+        const calendarEvents = await getMessageCalendarEvents(db, id);
+        const deliveryReports =
+          message.direction === "outbound" ? await listDeliveryReports(db, { messageId: id }) : [];
+
         return {
           content: [
             {
@@ -166,6 +303,8 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
                 ...message,
                 attachments,
                 labels: labels.map((l) => l.label),
+                calendar_events: calendarEvents,
+                delivery_reports: deliveryReports,
               }, null, 2),
             },
           ],
@@ -219,8 +358,7 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           };
         }
 
-        const buf = await obj.arrayBuffer();
-        const base64 = btoa(String.fromCharCode(...new Uint8Array(buf)));
+        const bytes = new Uint8Array(await obj.arrayBuffer());
 
         return {
           content: [
@@ -229,9 +367,9 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
               text: JSON.stringify({
                 id: att.id,
                 filename: att.filename,
-                content_type: att.content_type,
+                content_type: detectContentType(bytes, att.filename ?? "", att.content_type),
                 size: att.size,
-                content_base64: base64,
+                content_base64: bytesToBase64(bytes),
               }, null, 2),
             },
           ],
@@ -239,14 +377,65 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
       }
     );
 
+    // get_raw_message (approved only)
+    this.server.registerTool(
+      "get_raw_message",
+      {
+        description: "Fetch the original RFC 822 source (.eml) of an approved inbound message",
+        inputSchema: {
+          id: z.string().describe("Message ID"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const message = await db
+          .selectFrom("messages")
+          .select("raw_r2_key")
+          .where("id", "=", id)
+          .where("approved", "=", 1)
+          .executeTakeFirst();
+
+        if (!message) {
+          return {
+            content: [{ type: "text" as const, text: "Message not found" }],
+            isError: true,
+          };
+        }
+
+        const obj = message.raw_r2_key
+          ? await this.env.ATTACHMENTS.get(message.raw_r2_key)
+          : null;
+        if (!obj) {
+          return {
+            content: [{ type: "text" as const, text: "Raw source not stored for this message" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: await obj.text(),
+            },
+          ],
+        };
+      }
+    );
+
     // reply_to_message (approved only)
     this.server.registerTool(
       "reply_to_message",
       {
-        description: "Reply to an existing approved email message",
+        description: "Reply to an existing approved email message. Goes to the sender's Reply-To (or From); set reply_all to include the other recipients",
         inputSchema: {
           id: z.string().describe("Message ID to reply to"),
-          body: z.string().describe("Reply body (plain text)"),
+          reply_all: z.boolean().optional().describe("Cc everyone else on the original (our own addresses excluded)"),
+          cc: z.string().optional().describe("Extra CC recipients (comma-separated)"),
+          bcc: z.string().optional().describe("BCC recipients (comma-separated)"),
+          body: z.string().optional().describe("Reply body (plain text). Optional when html or markdown is given"),
+          html: z.string().optional().describe("HTML body"),
+          markdown: z.string().optional().describe("Markdown body, rendered to HTML with a plain-text alternative"),
           attachments: z.array(z.object({
             content: z.string().optional().describe("Base64-encoded content"),
             filename: z.string().describe("Filename"),
@@ -254,7 +443,67 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           })).optional().describe("Attachments to include"),
         },
       },
-      async ({ id, body, attachments }) => {
+      async ({ id, body, html, markdown, attachments, reply_all, cc, bcc }) => {
+        const db = getDb(this.env.DB);
+
+        // Verify message is approved
+        const msg = await db
+          .selectFrom("messages")
+          .select("approved")
+          .where("id", "=", id)
+          .executeTakeFirst();
+
+        if (!msg || msg.approved !== 1) {
+          return {
+            content: [{ type: "text" as const, text: "Message not found" }],
+            isError: true,
+          };
+        }
+
+        const result = await replyToMessage(
+          this.env,
+          db,
+          id,
+          { body, html, markdown },
+          attachments,
+          { replyAll: reply_all, cc, bcc }
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                status: result.status,
+                message_id: result.messageId,
+                provider_id: result.providerMessageId,
+                db_id: result.dbId,
+                ...(result.last_error ? { last_error: result.last_error } : {}),
+                ...(result.approval_reason ? { approval_reason: result.approval_reason } : {}),
+              }),
+            },
+          ],
+          ...(result.status === "failed" ? { isError: true } : {}),
+        };
+      }
+    );
+
+    // forward_message (approved only)
+    this.server.registerTool(
+      "forward_message",
+      {
+        description: "Forward an approved message, with its attachments, to new recipients. An optional note goes above the quoted original",
+        inputSchema: {
+          id: z.string().describe("Message ID to forward"),
+          to: z.string().describe("Recipient email address (comma-separated for multiple)"),
+          body: z.string().optional().describe("Note above the forwarded message (plain text)"),
+          html: z.string().optional().describe("Note as HTML"),
+          markdown: z.string().optional().describe("Note as Markdown"),
+          cc: z.string().optional().describe("CC recipients (comma-separated)"),
+          bcc: z.string().optional().describe("BCC recipients (comma-separated)"),
+          mailbox: z.string().optional().describe("Send from this mailbox instead of the one the message arrived on"),
+        },
+      },
+      async ({ id, to, body, html, markdown, cc, bcc, mailbox }) => {
         const db = getDb(this.env.DB);
 
         // Verify message is approved
@@ -271,18 +520,34 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           };
         }
 
-        const result = await replyToMessage(this.env, db, id, body, attachments);
+        const result = await forwardMessage(
+          this.env,
+          db,
+          id,
+          parseCommaSeparated(to),
+          { body, html, markdown },
+          {
+            cc: cc ? parseCommaSeparated(cc) : undefined,
+            bcc: bcc ? parseCommaSeparated(bcc) : undefined,
+            mailbox,
+          }
+        );
         return {
           content: [
             {
               type: "text" as const,
               text: JSON.stringify({
-                status: "sent",
-                resend_id: result.messageId,
+                status: result.status,
+                message_id: result.messageId,
+                provider_id: result.providerMessageId,
                 db_id: result.dbId,
+                thread_id: result.threadId,
+                ...(result.last_error ? { last_error: result.last_error } : {}),
+                ...(result.approval_reason ? { approval_reason: result.approval_reason } : {}),
               }),
             },
           ],
+          ...(result.status === "failed" ? { isError: true } : {}),
         };
       }
     );
@@ -295,12 +560,17 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
         inputSchema: {
           query: z.string().describe("Search query"),
           limit: z.number().optional().default(20).describe("Max results"),
+          mailbox: z.string().optional().describe("Filter by mailbox (id or address)"),
+          category: z.enum(MESSAGE_CATEGORIES).optional().describe("Filter by category"),
           include_archived: z.boolean().optional().default(false).describe("Include archived messages"),
         },
       },
-      async ({ query, limit, include_archived }) => {
+      async ({ query, limit, mailbox, category, include_archived }) => {
         const db = getDb(this.env.DB);
-        const messages = await searchMessages(db, query, limit ?? 20, include_archived ?? false);
+        const messages = await searchMessages(db, query, limit ?? 20, include_archived ?? false, {
+          mailbox,
+          category,
+        });
 
         return {
           content: [
@@ -321,18 +591,23 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
         inputSchema: {
           limit: z.number().optional().default(50).describe("Max threads to return"),
           offset: z.number().optional().default(0).describe("Offset for pagination"),
+          mailbox: z.string().optional().describe("Filter by mailbox (id or address)"),
         },
       },
-      async ({ limit, offset }) => {
+      async ({ limit, offset, mailbox }) => {
         const db = getDb(this.env.DB);
+        let approvedMessages = db
+          .selectFrom("messages")
+          .select("thread_id")
+          .where("approved", "=", 1);
+        if (mailbox) {
+          approvedMessages = approvedMessages.where("mailbox_id", "in", mailboxIdQuery(db, mailbox));
+        }
+
         const threads = await db
           .selectFrom("threads")
           .selectAll()
-          .where("id", "in",
-            db.selectFrom("messages")
-              .select("thread_id")
-              .where("approved", "=", 1)
-          )
+          .where("id", "in", approvedMessages)
           .orderBy("last_message_at", "desc")
           .limit(limit ?? 50)
           .offset(offset ?? 0)
@@ -349,6 +624,134 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
       }
     );
 
+    // merge_threads
+    this.server.registerTool(
+      "merge_threads",
+      {
+        description: "Merge other threads into a thread, moving all their messages and drafts. The other threads are deleted.",
+        inputSchema: {
+          thread_id: z.string().describe("Thread to keep"),
+          thread_ids: z.array(z.string()).min(1).max(50).describe("Threads to merge into it"),
+        },
+      },
+      async ({ thread_id, thread_ids }) => {
+        const db = getDb(this.env.DB);
+        const result = await mergeThreads(this.env, db, thread_id, thread_ids);
+
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // split_thread
+    this.server.registerTool(
+      "split_thread",
+      {
+        description: "Move messages that were threaded wrongly out of a thread into a new thread",
+        inputSchema: {
+          thread_id: z.string().describe("Thread the messages are in"),
+          message_ids: z.array(z.string()).min(1).max(50).describe("Messages to move to the new thread"),
+        },
+      },
+      async ({ thread_id, message_ids }) => {
+        const db = getDb(this.env.DB);
+        const result = await splitThread(this.env, db, thread_id, message_ids);
+
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // unsubscribe (approved only)
+    this.server.registerTool(
+      "unsubscribe",
+      {
+        description: "Unsubscribe from the mailing list a message came from (RFC 8058 one-click, or a mailto: unsubscribe email)",
+        inputSchema: {
+          id: z.string().describe("Message ID"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const result = await unsubscribe(this.env, db, id);
+
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result),
+            },
+          ],
+        };
+      }
+    );
+
+    // respond_to_invite (approved only)
+    this.server.registerTool(
+      "respond_to_invite",
+      {
+        description: "Accept, decline or tentatively accept a calendar invite. Sends an iTIP REPLY to the organizer, threaded to the invite.",
+        inputSchema: {
+          id: z.string().describe("Message ID of the invite"),
+          response: z.enum(INVITE_RESPONSES).describe("RSVP to send"),
+          comment: z.string().optional().describe("Optional note to the organizer"),
+        },
+      },
+      async ({ id, response, comment }) => {
+        const db = getDb(this.env.DB);
+        const result = await respondToInvite(this.env, db, id, response, comment);
+
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result),
+            },
+          ],
+        };
+      }
+    );
+
     // --- Labels ---
 
     this.server.registerTool(
@@ -487,18 +890,28 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
     this.server.registerTool(
       "create_draft",
       {
-        description: "Create an email draft for later review and sending",
+        description: "Create an email draft for later review and sending, optionally filled from a template",
         inputSchema: {
           to: z.string().optional().describe("Recipient email address"),
           cc: z.string().optional().describe("CC recipients"),
           bcc: z.string().optional().describe("BCC recipients"),
           subject: z.string().optional().describe("Email subject"),
           body_text: z.string().optional().describe("Email body (plain text)"),
+          body_html: z.string().optional().describe("Email body (HTML)"),
+          body_markdown: z.string().optional().describe("Email body (Markdown, rendered to HTML on send)"),
           thread_id: z.string().optional().describe("Thread ID to associate with"),
+          ...templateUseSchema,
         },
       },
-      async (params) => {
+      async (input) => {
         const db = getDb(this.env.DB);
+        const params = await applyDraftTemplate(db, input);
+        if ("error" in params) {
+          return {
+            content: [{ type: "text" as const, text: params.error }],
+            isError: true,
+          };
+        }
         const result = await createDraft(db, params);
 
         return {
@@ -523,6 +936,8 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
           bcc: z.string().optional().describe("BCC recipients"),
           subject: z.string().optional().describe("Email subject"),
           body_text: z.string().optional().describe("Email body (plain text)"),
+          body_html: z.string().optional().describe("Email body (HTML)"),
+          body_markdown: z.string().optional().describe("Email body (Markdown, rendered to HTML on send)"),
           thread_id: z.string().optional().describe("Thread ID to associate with"),
         },
       },
@@ -575,13 +990,38 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
     this.server.registerTool(
       "send_draft",
       {
-        description: "Send an existing draft as an email (draft is deleted after sending)",
+        description: "Send an existing draft as an email (draft is deleted after sending), or schedule it with send_at",
         inputSchema: {
           id: z.string().describe("Draft ID to send"),
+          send_at: z.union([z.number(), z.string()]).optional().describe("Schedule for later: Unix ms timestamp or ISO 8601 date. The draft stays editable until it is sent"),
+          timezone: z.string().optional().describe("IANA time zone for a send_at without UTC offset, e.g. 'America/New_York'"),
         },
       },
-      async ({ id }) => {
+      async ({ id, send_at, timezone }) => {
         const db = getDb(this.env.DB);
+
+        if (send_at !== undefined) {
+          const item = await queueDraft(db, id, parseTimestamp(send_at, timezone));
+          if ("error" in item) {
+            return {
+              content: [{ type: "text" as const, text: item.error }],
+              isError: true,
+            };
+          }
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  status: "queued",
+                  outbox_id: item.id,
+                  send_at: new Date(item.send_at).toISOString(),
+                }),
+              },
+            ],
+          };
+        }
+
         const result = await sendDraft(this.env, db, id);
 
         if ("error" in result) {
@@ -596,13 +1036,17 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
             {
               type: "text" as const,
               text: JSON.stringify({
-                status: "sent",
-                resend_id: result.messageId,
+                status: result.status,
+                message_id: result.messageId,
+                provider_id: result.providerMessageId,
                 db_id: result.dbId,
                 thread_id: result.threadId,
+                ...(result.last_error ? { last_error: result.last_error } : {}),
+                ...(result.approval_reason ? { approval_reason: result.approval_reason } : {}),
               }),
             },
           ],
+          ...(result.status === "failed" ? { isError: true } : {}),
         };
       }
     );
@@ -637,106 +1081,704 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
       }
     );
 
-    // --- Sender Approval Tools ---
+    // --- Outbox Tools ---
 
-    // list_pending (metadata only — no body content to prevent injection)
     this.server.registerTool(
-      "list_pending",
+      "list_outbox",
       {
-        description: "List pending unapproved messages. Returns metadata only (sender, subject, timestamp) — no body content for security.",
+        description: "List scheduled sends, soonest first",
         inputSchema: {
-          limit: z.number().optional().default(50).describe("Max messages to return"),
+          status: z.enum(["queued", "sending", "pending_outbound", "retrying", "sent", "failed", "cancelled"]).optional().describe("Filter by status"),
+          limit: z.number().optional().default(50).describe("Max items to return"),
           offset: z.number().optional().default(0).describe("Offset for pagination"),
         },
       },
-      async ({ limit, offset }) => {
+      async ({ status, limit, offset }) => {
         const db = getDb(this.env.DB);
-        const messages = await db
-          .selectFrom("messages")
-          .select(["id", "from", "subject", "direction", "created_at"])
-          .where("approved", "=", 0)
-          .orderBy("created_at", "desc")
-          .limit(limit ?? 50)
-          .offset(offset ?? 0)
-          .execute();
+        const items = await listOutbox(db, { status, limit, offset });
 
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify(messages, null, 2),
+              text: JSON.stringify(items, null, 2),
             },
           ],
         };
       }
     );
 
-    // approve_sender
     this.server.registerTool(
-      "approve_sender",
+      "cancel_outbox_item",
       {
-        description: "Add a sender to the approved list. Retroactively approves all their existing messages.",
+        description: "Cancel a scheduled send before it goes out",
         inputSchema: {
-          email: z.string().describe("Email address to approve"),
-          name: z.string().optional().describe("Display name for the sender"),
+          id: z.string().describe("Outbox item ID"),
         },
       },
-      async ({ email, name }) => {
+      async ({ id }) => {
         const db = getDb(this.env.DB);
-        const normalized = email.toLowerCase();
-
-        await db
-          .insertInto("approved_senders")
-          .values({
-            email: normalized,
-            name: name ?? null,
-            created_at: Date.now(),
-          })
-          .onConflict((oc) => oc.column("email").doUpdateSet({ name: name ?? null }))
-          .execute();
+        const result = await cancelOutboxItem(this.env, db, id);
 
-        const result = await db
-          .updateTable("messages")
-          .set({ approved: 1 })
-          .where("from", "=", normalized)
-          .where("approved", "=", 0)
-          .execute();
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
 
-        const count = Number(result[0]?.numUpdatedRows ?? 0);
         return {
           content: [
             {
               type: "text" as const,
-              text: `Approved sender: ${normalized}\nRetroactively approved ${count} message(s)`,
+              text: JSON.stringify({ status: "cancelled", id }),
             },
           ],
         };
       }
     );
 
-    // remove_sender
     this.server.registerTool(
-      "remove_sender",
+      "reschedule_outbox_item",
       {
-        description: "Remove a sender from the approved list. Does not unapprove already-approved messages.",
+        description: "Move a scheduled send to a new time (also re-queues a failed one)",
         inputSchema: {
-          email: z.string().describe("Email address to remove"),
+          id: z.string().describe("Outbox item ID"),
+          send_at: z.union([z.number(), z.string()]).describe("Unix ms timestamp or ISO 8601 date"),
+          timezone: z.string().optional().describe("IANA time zone for a send_at without UTC offset, e.g. 'America/New_York'"),
         },
       },
-      async ({ email }) => {
+      async ({ id, send_at, timezone }) => {
         const db = getDb(this.env.DB);
-        const normalized = email.toLowerCase();
+        const result = await rescheduleOutboxItem(db, id, parseTimestamp(send_at, timezone));
 
-        await db
-          .deleteFrom("approved_senders")
-          .where("email", "=", normalized)
+        if ("error" in result) {
+          return {
+            content: [{ type: "text" as const, text: result.error }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                status: "queued",
+                id,
+                send_at: new Date(result.send_at).toISOString(),
+              }),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Rule Tools ---
+
+    this.server.registerTool(
+      "list_rules",
+      {
+        description: "List inbound rules in the order they run",
+        inputSchema: {},
+      },
+      async () => {
+        const db = getDb(this.env.DB);
+        const rules = await listRules(db);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(rules, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "create_rule",
+      {
+        description: "Create an inbound rule. Conditions match on from/to/subject/body/header/has_attachment; actions can add labels, archive, approve, forward, or fire a webhook.",
+        inputSchema: ruleInputSchema,
+      },
+      async (params) => {
+        const db = getDb(this.env.DB);
+        const rule = await createRule(db, params);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "created", id: rule.id }),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "update_rule",
+      {
+        description: "Update an inbound rule (only the provided fields change)",
+        inputSchema: {
+          id: z.string().describe("Rule ID"),
+          ...ruleUpdateInput.shape,
+        },
+      },
+      async ({ id, ...params }) => {
+        const db = getDb(this.env.DB);
+        const rule = await updateRule(db, id, params);
+
+        if (!rule) {
+          return {
+            content: [{ type: "text" as const, text: "Rule not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "updated", id }),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "delete_rule",
+      {
+        description: "Delete an inbound rule",
+        inputSchema: {
+          id: z.string().describe("Rule ID"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const found = await deleteRule(db, id);
+
+        if (!found) {
+          return {
+            content: [{ type: "text" as const, text: "Rule not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "deleted", id }),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "test_rule",
+      {
+        description: "Dry-run a saved rule (by id) or unsaved conditions against recent stored inbound messages. Returns metadata only (id, sender, subject).",
+        inputSchema: {
+          id: z.string().optional().describe("Saved rule ID"),
+          match_mode: z.enum(["all", "any"]).optional().default("all").describe("Used with inline conditions"),
+          conditions: z.array(ruleConditionSchema).optional().describe("Inline conditions to test instead of a saved rule"),
+          limit: z.number().optional().default(200).describe("How many recent messages to scan"),
+        },
+      },
+      async ({ id, match_mode, conditions, limit }) => {
+        const db = getDb(this.env.DB);
+        const rule = id
+          ? await getRule(db, id)
+          : conditions
+            ? { match_mode: match_mode ?? "all", conditions }
+            : null;
+
+        if (!rule) {
+          return {
+            content: [{ type: "text" as const, text: id ? "Rule not found" : "Provide id or conditions" }],
+            isError: true,
+          };
+        }
+
+        const result = await dryRunRule(db, rule, Math.min(limit ?? 200, 1000));
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Template Tools ---
+
+    this.server.registerTool(
+      "list_templates",
+      {
+        description: "List email templates with the {{variables}} each one needs",
+        inputSchema: {},
+      },
+      async () => {
+        const db = getDb(this.env.DB);
+        const templates = await listTemplates(db);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(templates, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "get_template",
+      {
+        description: "Read an email template",
+        inputSchema: {
+          id: z.string().describe("Template ID or name"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const template = await getTemplate(db, id);
+
+        if (!template) {
+          return {
+            content: [{ type: "text" as const, text: "Template not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(template, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "create_template",
+      {
+        description: "Create a reusable email template. Use it with template_id + variables on send_email or create_draft.",
+        inputSchema: templateInputSchema,
+      },
+      async (params) => {
+        const db = getDb(this.env.DB);
+        try {
+          const template = await createTemplate(db, params);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  status: "created",
+                  id: template.id,
+                  variables: template.variables,
+                }),
+              },
+            ],
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: (err as Error).message }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.registerTool(
+      "update_template",
+      {
+        description: "Update an email template (only the provided fields change)",
+        inputSchema: {
+          id: z.string().describe("Template ID or name"),
+          ...templateInput.partial().shape,
+        },
+      },
+      async ({ id, ...params }) => {
+        const db = getDb(this.env.DB);
+        try {
+          const template = await updateTemplate(db, id, params);
+          if (!template) {
+            return {
+              content: [{ type: "text" as const, text: "Template not found" }],
+              isError: true,
+            };
+          }
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  status: "updated",
+                  id: template.id,
+                  variables: template.variables,
+                }),
+              },
+            ],
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: (err as Error).message }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.registerTool(
+      "delete_template",
+      {
+        description: "Delete an email template",
+        inputSchema: {
+          id: z.string().describe("Template ID or name"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const found = await deleteTemplate(db, id);
+
+        if (!found) {
+          return {
+            content: [{ type: "text" as const, text: "Template not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "deleted", id }),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Auto-Responder Tools ---
+
+    this.server.registerTool(
+      "list_auto_responders",
+      {
+        description: "List vacation / auto-responders",
+        inputSchema: {},
+      },
+      async () => {
+        const db = getDb(this.env.DB);
+        const responders = await listAutoResponders(db);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(responders, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "create_auto_responder",
+      {
+        description: "Create a vacation / auto-responder. Replies are threaded, throttled per sender, and never sent to lists, bulk mail, robots or our own addresses.",
+        inputSchema: autoResponderInputSchema,
+      },
+      async (params) => {
+        const db = getDb(this.env.DB);
+        try {
+          const responder = await createAutoResponder(db, params);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({ status: "created", id: responder.id }),
+              },
+            ],
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: (err as Error).message }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.registerTool(
+      "update_auto_responder",
+      {
+        description: "Update an auto-responder (only the provided fields change)",
+        inputSchema: {
+          id: z.string().describe("Auto-responder ID"),
+          ...autoResponderInput.partial().shape,
+        },
+      },
+      async ({ id, ...params }) => {
+        const db = getDb(this.env.DB);
+        try {
+          const responder = await updateAutoResponder(db, id, params);
+          if (!responder) {
+            return {
+              content: [{ type: "text" as const, text: "Auto-responder not found" }],
+              isError: true,
+            };
+          }
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({ status: "updated", id }),
+              },
+            ],
+          };
+        } catch (err) {
+          return {
+            content: [{ type: "text" as const, text: (err as Error).message }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.registerTool(
+      "delete_auto_responder",
+      {
+        description: "Delete an auto-responder",
+        inputSchema: {
+          id: z.string().describe("Auto-responder ID"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const found = await deleteAutoResponder(db, id);
+
+        if (!found) {
+          return {
+            content: [{ type: "text" as const, text: "Auto-responder not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "deleted", id }),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Mailbox Tools ---
+
+    this.server.registerTool(
+      "list_mailboxes",
+      {
+        description: "List mailboxes (addresses routed to this worker). Inbound mail is assigned to a mailbox and replies are sent from it.",
+        inputSchema: {},
+      },
+      async () => {
+        const db = getDb(this.env.DB);
+        const mailboxes = await listMailboxes(db);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(mailboxes, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "create_mailbox",
+      {
+        description: "Create a mailbox (or rename an existing one). Plus-addressed mail (name+tag@) routes to the base mailbox.",
+        inputSchema: {
+          address: z.string().describe("Mailbox address, e.g. support@yourdomain.com"),
+          name: z.string().optional().describe("Display name used when sending from this mailbox"),
+        },
+      },
+      async ({ address, name }) => {
+        if (!address.includes("@")) {
+          return {
+            content: [{ type: "text" as const, text: "Invalid address" }],
+            isError: true,
+          };
+        }
+
+        const db = getDb(this.env.DB);
+        const mailbox = await createMailbox(db, address, name ?? null);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(mailbox),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "delete_mailbox",
+      {
+        description: "Delete a mailbox. Its messages are kept and fall back to the default sender identity.",
+        inputSchema: {
+          id: z.string().describe("Mailbox ID or address"),
+        },
+      },
+      async ({ id }) => {
+        const db = getDb(this.env.DB);
+        const found = await deleteMailbox(db, id);
+
+        if (!found) {
+          return {
+            content: [{ type: "text" as const, text: "Mailbox not found" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ status: "deleted", id }),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Sender Approval Tools ---
+
+    // list_pending (metadata only — no body content to prevent injection)
+    this.server.registerTool(
+      "list_pending",
+      {
+        description: "List pending unapproved messages. Returns metadata only (sender, subject, timestamp) — no body content for security.",
+        inputSchema: {
+          limit: z.number().optional().default(50).describe("Max messages to return"),
+          offset: z.number().optional().default(0).describe("Offset for pagination"),
+        },
+      },
+      async ({ limit, offset }) => {
+        const db = getDb(this.env.DB);
+        const messages = await db
+          .selectFrom("messages")
+          .select(["id", "from", "subject", "direction", "created_at"])
+          .where("approved", "=", 0)
+          .orderBy("created_at", "desc")
+          .limit(limit ?? 50)
+          .offset(offset ?? 0)
           .execute();
 
         return {
           content: [
             {
               type: "text" as const,
-              text: `Removed sender: ${normalized}`,
+              text: JSON.stringify(messages, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // approve_sender
+    this.server.registerTool(
+      "approve_sender",
+      {
+        description: "Add a sender rule to the approved list. Accepts an exact address, a domain ('stripe.com' or '*@stripe.com'), a subdomain wildcard ('*.github.com') or a glob. Retroactively approves all matching pending messages.",
+        inputSchema: {
+          email: z.string().describe("Email address, domain or glob pattern to approve"),
+          name: z.string().optional().describe("Display name for the sender"),
+        },
+      },
+      async ({ email, name }) => {
+        const db = getDb(this.env.DB);
+        const result = await upsertSenderRule(
+          db,
+          email,
+          name ?? null,
+          "allow",
+          getSenderAuthPolicy(this.env)
+        );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Approved sender: ${result.email}\nRetroactively approved ${result.approved_count} message(s)`,
+            },
+          ],
+        };
+      }
+    );
+
+    // deny_sender
+    this.server.registerTool(
+      "deny_sender",
+      {
+        description: "Add a deny rule (address, domain or glob). Deny rules override approve rules, so matching senders stay pending. Does not unapprove already-approved messages.",
+        inputSchema: {
+          email: z.string().describe("Email address, domain or glob pattern to deny"),
+          name: z.string().optional().describe("Note or display name for the rule"),
+        },
+      },
+      async ({ email, name }) => {
+        const db = getDb(this.env.DB);
+        const result = await upsertSenderRule(db, email, name ?? null, "deny");
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Denied sender: ${result.email}`,
+            },
+          ],
+        };
+      }
+    );
+
+    // remove_sender
+    this.server.registerTool(
+      "remove_sender",
+      {
+        description: "Remove an approve or deny rule. Does not unapprove already-approved messages.",
+        inputSchema: {
+          email: z.string().describe("Email address or pattern to remove"),
+        },
+      },
+      async ({ email }) => {
+        const db = getDb(this.env.DB);
+        const removed = await removeSenderRule(db, email);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Removed sender: ${removed}`,
             },
           ],
         };
@@ -747,16 +1789,12 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
     this.server.registerTool(
       "list_approved_senders",
       {
-        description: "List all approved email senders",
+        description: "List all sender rules (exact addresses and patterns) with their action (allow/deny)",
         inputSchema: {},
       },
       async () => {
         const db = getDb(this.env.DB);
-        const senders = await db
-          .selectFrom("approved_senders")
-          .selectAll()
-          .orderBy("created_at", "desc")
-          .execute();
+        const senders = await listSenderRules(db);
 
         return {
           content: [
@@ -768,5 +1806,156 @@ export class EmailMCP extends McpAgent<Env, {}, {}> {
         };
       }
     );
+
+    // --- Blocklist Tools ---
+
+    this.server.registerTool(
+      "block_sender",
+      {
+        description: "Block a sender address or domain. Their mail is rejected at SMTP time and never stored.",
+        inputSchema: {
+          pattern: z.string().describe("Email address or domain to block (a domain also blocks its subdomains)"),
+          reason: z.string().optional().describe("Why this sender is blocked"),
+        },
+      },
+      async ({ pattern, reason }) => {
+        const db = getDb(this.env.DB);
+        const result = await blockSender(db, pattern, reason ?? null);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Blocked ${result.kind}: ${result.pattern}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "unblock_sender",
+      {
+        description: "Remove a sender address or domain from the blocklist",
+        inputSchema: {
+          pattern: z.string().describe("Email address or domain to unblock"),
+        },
+      },
+      async ({ pattern }) => {
+        const db = getDb(this.env.DB);
+        const removed = await unblockSender(db, pattern);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Unblocked: ${removed}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "list_blocked_senders",
+      {
+        description: "List blocked senders with how many messages each rule has rejected",
+        inputSchema: {},
+      },
+      async () => {
+        const db = getDb(this.env.DB);
+        const blocked = await listBlockedSenders(db);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(blocked, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // --- Suppression Tools ---
+
+    this.server.registerTool(
+      "list_suppressions",
+      {
+        description: "List recipient addresses outbound mail is refused to (hard bounces, complaints, manual)",
+        inputSchema: {
+          reason: z.enum(["bounce", "complaint", "manual"]).optional().describe("Filter by reason"),
+          limit: z.number().optional().default(100).describe("Max entries to return"),
+          offset: z.number().optional().default(0).describe("Offset for pagination"),
+        },
+      },
+      async ({ reason, limit, offset }) => {
+        const db = getDb(this.env.DB);
+        const suppressions = await listSuppressions(db, { reason, limit, offset });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(suppressions, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "add_suppression",
+      {
+        description: "Stop all outbound mail to an address, e.g. when someone asks not to be contacted",
+        inputSchema: {
+          address: z.string().describe("Email address to suppress"),
+          detail: z.string().optional().describe("Why it is suppressed"),
+        },
+      },
+      async ({ address, detail }) => {
+        const db = getDb(this.env.DB);
+        const suppressed = await suppressAddress(db, address, "manual", { detail });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Suppressed: ${suppressed}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.registerTool(
+      "remove_suppression",
+      {
+        description: "Allow outbound mail to a suppressed address again",
+        inputSchema: {
+          address: z.string().describe("Email address to remove from the suppression list"),
+        },
+      },
+      async ({ address }) => {
+        const db = getDb(this.env.DB);
+        const removed = await unsuppressAddress(db, address);
+
+        if (!removed) {
+          return {
+            content: [{ type: "text" as const, text: "Address is not suppressed" }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Removed from suppression list: ${address.trim().toLowerCase()}`,
+            },
+          ],
+        };
+      }
+    );
   }
 }
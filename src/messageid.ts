@@ -0,0 +1,16 @@
+/** Wrap a Message-ID in angle brackets if it isn't already */
+export function normalizeMessageId(id: string): string {
+  const trimmed = id.trim();
+  return trimmed.startsWith("<") ? trimmed : `<${trimmed.replace(/>$/, "")}>`;
+}
+
+/** A fresh Message-ID on the sender's domain */
+export function generateMessageId(fromEmail: string): string {
+  const domain = fromEmail.split("@")[1] || "localhost";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+/** Message-IDs in a References / In-Reply-To value, in order */
+export function parseMessageIds(value: string | null | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
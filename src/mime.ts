@@ -0,0 +1,159 @@
+// ---------------------------------------------------------------------------
+// Base64
+// ---------------------------------------------------------------------------
+
+/** Bytes per String.fromCharCode call — well under engine argument limits */
+const CHUNK_SIZE = 0x8000;
+
+/** Base64-encode bytes in chunks, so multi-MB attachments don't overflow the stack */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    chunks.push(String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK_SIZE))));
+  }
+  return btoa(chunks.join(""));
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Decoded size of base64 content without decoding it */
+export function base64Size(base64: string): number {
+  const length = base64.replace(/\s/g, "").length;
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((length * 3) / 4) - padding;
+}
+
+// ---------------------------------------------------------------------------
+// Content types
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+/** Leading bytes of common formats; `null` matches any byte */
+const SIGNATURES: [type: string, signature: (number | null)[]][] = [
+  ["application/pdf", [0x25, 0x50, 0x44, 0x46, 0x2d]], // %PDF-
+  ["image/png", [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  ["image/jpeg", [0xff, 0xd8, 0xff]],
+  ["image/gif", [0x47, 0x49, 0x46, 0x38]], // GIF8
+  ["image/webp", [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  ["audio/wav", [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45]],
+  ["image/bmp", [0x42, 0x4d]],
+  ["image/tiff", [0x49, 0x49, 0x2a, 0x00]],
+  ["image/tiff", [0x4d, 0x4d, 0x00, 0x2a]],
+  ["audio/mpeg", [0x49, 0x44, 0x33]], // ID3
+  ["video/mp4", [null, null, null, null, 0x66, 0x74, 0x79, 0x70]], // ....ftyp
+  ["application/gzip", [0x1f, 0x8b]],
+  ["application/x-7z-compressed", [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]],
+  ["application/zip", [0x50, 0x4b, 0x03, 0x04]],
+  // OLE2 container: legacy .doc / .xls / .ppt / .msg
+  ["application/x-ole-storage", [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]],
+];
+
+/** Most bytes any signature looks at */
+export const SNIFF_BYTES = 12;
+
+/** Container formats whose extension says more than their magic bytes */
+const CONTAINERS = new Set(["application/zip", "application/x-ole-storage"]);
+
+const EXTENSIONS: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  htm: "text/html",
+  html: "text/html",
+  css: "text/css",
+  json: "application/json",
+  xml: "application/xml",
+  ics: "text/calendar",
+  vcf: "text/vcard",
+  eml: "message/rfc822",
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  zip: "application/zip",
+  gz: "application/gzip",
+  tar: "application/x-tar",
+  "7z": "application/x-7z-compressed",
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  epub: "application/epub+zip",
+};
+
+function sniffContentType(bytes: Uint8Array): string | null {
+  for (const [type, signature] of SIGNATURES) {
+    if (
+      bytes.length >= signature.length &&
+      signature.every((byte, i) => byte === null || bytes[i] === byte)
+    ) {
+      return type;
+    }
+  }
+  return null;
+}
+
+function contentTypeFromFilename(filename: string): string | null {
+  const dot = filename.lastIndexOf(".");
+  if (dot === -1) return null;
+  return EXTENSIONS[filename.slice(dot + 1).toLowerCase()] ?? null;
+}
+
+/**
+ * Best content type for an attachment: a declared (or stored) type unless
+ * it's the generic octet-stream, then the file's magic bytes, then its
+ * extension. Zip and OLE2 containers defer to the extension (.docx, .xls).
+ * Only the first SNIFF_BYTES of `head` are looked at.
+ */
+export function detectContentType(
+  head: Uint8Array,
+  filename: string,
+  declared?: string | null
+): string {
+  if (declared && declared.toLowerCase() !== DEFAULT_CONTENT_TYPE) return declared;
+
+  const sniffed = sniffContentType(head);
+  if (sniffed && !CONTAINERS.has(sniffed)) return sniffed;
+
+  const byName = contentTypeFromFilename(filename);
+  if (byName) return byName;
+  return sniffed && sniffed !== "application/x-ole-storage" ? sniffed : DEFAULT_CONTENT_TYPE;
+}
+
+/** Like detectContentType, for base64 content — only its first bytes are decoded */
+export function detectBase64ContentType(
+  base64: string,
+  filename: string,
+  declared?: string | null
+): string {
+  const head = base64.replace(/\s/g, "").slice(0, Math.ceil(SNIFF_BYTES / 3) * 4);
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(head);
+  } catch {
+    bytes = new Uint8Array();
+  }
+  return detectContentType(bytes, filename, declared);
+}
@@ -0,0 +1,78 @@
+import type { Kysely } from "kysely";
+import type { Database, OutboundAllowlistEntry } from "./db/schema";
+import { listOwnAddresses, parseAddressList, parsePlusAddress } from "./mailboxes";
+import { matchesSenderPattern, normalizeSenderPattern } from "./senders";
+import type { Env } from "./types";
+
+/**
+ * Which outbound mail waits for human approval:
+ * - "off": none (default)
+ * - "unknown": mail to any recipient not on the outbound allowlist
+ * - "all": every outbound message
+ */
+export type OutboundApprovalPolicy = "off" | "unknown" | "all";
+
+export function getOutboundApprovalPolicy(env: Env): OutboundApprovalPolicy {
+  const policy = env.OUTBOUND_APPROVAL_POLICY;
+  return policy === "unknown" || policy === "all" ? policy : "off";
+}
+
+/**
+ * Why an outbound message must be held for approval, or null to send it now.
+ * Under "unknown", our own addresses and outbound allowlist entries (exact,
+ * domain or glob) count as allowlisted recipients. The inbound
+ * approved-senders list doesn't: the agent can edit that one.
+ */
+export async function outboundHoldReason(
+  env: Env,
+  db: Kysely<Database>,
+  recipients: string[]
+): Promise<string | null> {
+  const policy = getOutboundApprovalPolicy(env);
+  if (policy === "off") return null;
+  if (policy === "all") return "OUTBOUND_APPROVAL_POLICY=all holds every outbound message";
+
+  const own = await listOwnAddresses(env, db);
+  const patterns = (await db.selectFrom("outbound_allowlist").select("pattern").execute()).map(
+    (row) => row.pattern
+  );
+  const unknown = parseAddressList(recipients.join(", ")).filter(
+    (address) =>
+      !own.has(parsePlusAddress(address).base) &&
+      !patterns.some((pattern) => matchesSenderPattern(pattern, address))
+  );
+  if (unknown.length === 0) return null;
+  return `Recipients not on the allowlist: ${unknown.join(", ")}`;
+}
+
+export async function listOutboundAllowlist(
+  db: Kysely<Database>
+): Promise<OutboundAllowlistEntry[]> {
+  return db.selectFrom("outbound_allowlist").selectAll().orderBy("pattern").execute();
+}
+
+/** Allow a recipient (address, domain or glob); returns the normalized pattern */
+export async function allowOutboundRecipient(
+  db: Kysely<Database>,
+  pattern: string,
+  note: string | null = null
+): Promise<string> {
+  const normalized = normalizeSenderPattern(pattern);
+  await db
+    .insertInto("outbound_allowlist")
+    .values({ pattern: normalized, note, created_at: Date.now() })
+    .onConflict((oc) => oc.column("pattern").doUpdateSet({ note }))
+    .execute();
+  return normalized;
+}
+
+export async function removeOutboundRecipient(
+  db: Kysely<Database>,
+  pattern: string
+): Promise<boolean> {
+  const result = await db
+    .deleteFrom("outbound_allowlist")
+    .where("pattern", "=", normalizeSenderPattern(pattern))
+    .execute();
+  return Number(result[0]?.numDeletedRows ?? 0) > 0;
+}
@@ -0,0 +1,406 @@
+import type { Kysely } from "kysely";
+import type { Database, OutboxItem } from "./db/schema";
+import { buildDraftSendParams, getDraft } from "./drafts";
+import { resolveBody, sendEmail, type SendEmailParams } from "./mail";
+import { base64ToBytes, bytesToBase64 } from "./mime";
+import type { Env } from "./types";
+
+/** A "sending" item older than this was interrupted mid-send */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+function outboxKey(id: string, index: number): string {
+  return `outbox/${id}/${index}`;
+}
+
+function listRecipients(to: string | string[]): string {
+  return Array.isArray(to) ? to.join(", ") : to;
+}
+
+/** Remove the R2 copies of a scheduled send's inline attachments */
+async function deleteStashedAttachments(env: Env, id: string): Promise<void> {
+  const listed = await env.ATTACHMENTS.list({ prefix: `outbox/${id}/` });
+  if (listed.objects.length > 0) {
+    await env.ATTACHMENTS.delete(listed.objects.map((o) => o.key));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queueing
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue an email to be sent at `sendAt`. Inline (base64) attachments are
+ * moved to R2 so the D1 row stays small; they are restored at send time.
+ */
+export async function queueEmail(
+  env: Env,
+  db: Kysely<Database>,
+  params: SendEmailParams,
+  sendAt: number
+): Promise<OutboxItem> {
+  // Fail now rather than at send time on a missing or ambiguous body
+  resolveBody(params);
+
+  const now = Date.now();
+  const id = crypto.randomUUID();
+
+  const attachments = await Promise.all(
+    (params.attachments ?? [])
+      .filter((att) => att.attachment_id || att.content)
+      .map(async (att, i) => {
+        if (att.attachment_id) return att;
+        await env.ATTACHMENTS.put(outboxKey(id, i), base64ToBytes(att.content!));
+        return { ...att, content: undefined };
+      })
+  );
+
+  await db
+    .insertInto("outbox")
+    .values({
+      id,
+      draft_id: null,
+      params: JSON.stringify({ ...params, attachments }),
+      to: listRecipients(params.to),
+      subject: params.subject,
+      send_at: sendAt,
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+      message_id: null,
+      sent_at: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  return (await getOutboxItem(db, id))!;
+}
+
+/**
+ * Schedule a draft. The draft is kept (and can still be edited) until it
+ * goes out; cancelling the scheduled send leaves it in place.
+ */
+export async function queueDraft(
+  db: Kysely<Database>,
+  draftId: string,
+  sendAt: number
+): Promise<OutboxItem | { error: string }> {
+  const draft = await getDraft(db, draftId);
+  if (!draft) return { error: "Draft not found" };
+
+  const params = await buildDraftSendParams(db, draft);
+  if ("error" in params) return params;
+
+  const pending = await db
+    .selectFrom("outbox")
+    .select("id")
+    .where("draft_id", "=", draftId)
+    .where("status", "in", ["queued", "sending", "pending_outbound", "retrying"])
+    .executeTakeFirst();
+  if (pending) return { error: `Draft is already scheduled (${pending.id})` };
+
+  const now = Date.now();
+  const id = crypto.randomUUID();
+
+  await db
+    .insertInto("outbox")
+    .values({
+      id,
+      draft_id: draftId,
+      params: null,
+      to: listRecipients(params.to),
+      subject: params.subject,
+      send_at: sendAt,
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+      message_id: null,
+      sent_at: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  return (await getOutboxItem(db, id))!;
+}
+
+// ---------------------------------------------------------------------------
+// Queries and changes
+// ---------------------------------------------------------------------------
+
+export async function getOutboxItem(
+  db: Kysely<Database>,
+  id: string
+): Promise<OutboxItem | null> {
+  return (
+    (await db
+      .selectFrom("outbox")
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst()) ?? null
+  );
+}
+
+export async function listOutbox(
+  db: Kysely<Database>,
+  options: { status?: OutboxItem["status"]; limit?: number; offset?: number } = {}
+): Promise<OutboxItem[]> {
+  let query = db
+    .selectFrom("outbox")
+    .selectAll()
+    .orderBy("send_at", "asc")
+    .limit(options.limit ?? 50)
+    .offset(options.offset ?? 0);
+  if (options.status) query = query.where("status", "=", options.status);
+  return query.execute();
+}
+
+/** Cancel a queued (or failed) send. Items already sending or sent can't be cancelled. */
+export async function cancelOutboxItem(
+  env: Env,
+  db: Kysely<Database>,
+  id: string
+): Promise<OutboxItem | { error: string }> {
+  const result = await db
+    .updateTable("outbox")
+    .set({ status: "cancelled", updated_at: Date.now() })
+    .where("id", "=", id)
+    .where("status", "in", ["queued", "failed"])
+    .execute();
+
+  if (Number(result[0]?.numUpdatedRows ?? 0) === 0) {
+    const item = await getOutboxItem(db, id);
+    if (!item) return { error: "Outbox item not found" };
+    return { error: `Cannot cancel a ${item.status} item` };
+  }
+
+  await deleteStashedAttachments(env, id);
+  return (await getOutboxItem(db, id))!;
+}
+
+/** Move a queued send to a new time, or re-queue a failed one */
+export async function rescheduleOutboxItem(
+  db: Kysely<Database>,
+  id: string,
+  sendAt: number
+): Promise<OutboxItem | { error: string }> {
+  const result = await db
+    .updateTable("outbox")
+    .set({ send_at: sendAt, status: "queued", last_error: null, updated_at: Date.now() })
+    .where("id", "=", id)
+    .where("status", "in", ["queued", "failed"])
+    .execute();
+
+  if (Number(result[0]?.numUpdatedRows ?? 0) === 0) {
+    const item = await getOutboxItem(db, id);
+    if (!item) return { error: "Outbox item not found" };
+    return { error: `Cannot reschedule a ${item.status} item` };
+  }
+
+  return (await getOutboxItem(db, id))!;
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** Rebuild the send parameters for an item claimed for sending */
+async function loadSendParams(
+  env: Env,
+  db: Kysely<Database>,
+  item: OutboxItem
+): Promise<SendEmailParams> {
+  if (item.draft_id) {
+    const draft = await getDraft(db, item.draft_id);
+    if (!draft) throw new Error("Draft was deleted");
+    const params = await buildDraftSendParams(db, draft);
+    if ("error" in params) throw new Error(params.error);
+    return params;
+  }
+
+  const params = JSON.parse(item.params!) as SendEmailParams;
+  if (params.attachments) {
+    params.attachments = await Promise.all(
+      params.attachments.map(async (att, i) => {
+        if (att.attachment_id) return att;
+        const obj = await env.ATTACHMENTS.get(outboxKey(item.id, i));
+        if (!obj) throw new Error(`Attachment ${att.filename} is missing from R2`);
+        return { ...att, content: bytesToBase64(new Uint8Array(await obj.arrayBuffer())) };
+      })
+    );
+  }
+  return params;
+}
+
+/** The item's message went out: record it and drop the draft and stashed attachments */
+async function completeOutboxItem(
+  env: Env,
+  db: Kysely<Database>,
+  item: Pick<OutboxItem, "id" | "draft_id">,
+  messageId: string
+): Promise<void> {
+  await db
+    .updateTable("outbox")
+    .set({
+      status: "sent",
+      message_id: messageId,
+      last_error: null,
+      sent_at: Date.now(),
+      updated_at: Date.now(),
+    })
+    .where("id", "=", item.id)
+    .execute();
+
+  if (item.draft_id) {
+    await db.deleteFrom("drafts").where("id", "=", item.draft_id).execute();
+  }
+  await deleteStashedAttachments(env, item.id);
+}
+
+/**
+ * Catch up items whose message was held for approval or was retrying: "sent"
+ * once the message went out, "failed" (keeping the draft and stash so the
+ * item can be rescheduled) if it failed or was rejected.
+ */
+async function settleWaitingItems(
+  env: Env,
+  db: Kysely<Database>,
+  counts: { sent: number; failed: number }
+): Promise<void> {
+  const waiting = await db
+    .selectFrom("outbox")
+    .innerJoin("messages", "messages.id", "outbox.message_id")
+    .select([
+      "outbox.id",
+      "outbox.draft_id",
+      "outbox.status",
+      "outbox.message_id",
+      "messages.status as message_status",
+      "messages.last_error as message_error",
+    ])
+    .where("outbox.status", "in", ["pending_outbound", "retrying"])
+    .execute();
+
+  for (const item of waiting) {
+    const status = item.message_status;
+    // Claimed by an approval or retry that is still running
+    if (status === "sending") continue;
+
+    if (status === "pending_outbound" || status === "retrying") {
+      if (status !== item.status) {
+        await db
+          .updateTable("outbox")
+          .set({ status, updated_at: Date.now() })
+          .where("id", "=", item.id)
+          .execute();
+      }
+    } else if (status === "failed" || status === "rejected") {
+      await db
+        .updateTable("outbox")
+        .set({ status: "failed", last_error: item.message_error, updated_at: Date.now() })
+        .where("id", "=", item.id)
+        .execute();
+      counts.failed++;
+    } else {
+      await completeOutboxItem(env, db, item, item.message_id!);
+      counts.sent++;
+    }
+  }
+}
+
+/**
+ * Send every queued item whose send_at has passed. Each item is claimed by
+ * flipping it to "sending" first, so overlapping runs never send it twice.
+ * Called from the scheduled() handler every minute.
+ */
+export async function dispatchDueOutbox(
+  env: Env,
+  db: Kysely<Database>,
+  limit = 25
+): Promise<{ sent: number; failed: number }> {
+  const now = Date.now();
+
+  // A worker that died mid-send may or may not have handed the message to
+  // the provider; mark it failed rather than risk a duplicate send
+  await db
+    .updateTable("outbox")
+    .set({ status: "failed", last_error: "Interrupted while sending", updated_at: now })
+    .where("status", "=", "sending")
+    .where("updated_at", "<", now - STALE_SENDING_MS)
+    .execute();
+
+  const due = await db
+    .selectFrom("outbox")
+    .selectAll()
+    .where("status", "=", "queued")
+    .where("send_at", "<=", now)
+    .orderBy("send_at", "asc")
+    .limit(limit)
+    .execute();
+
+  const counts = { sent: 0, failed: 0 };
+  await settleWaitingItems(env, db, counts);
+
+  for (const item of due) {
+    const claimed = await db
+      .updateTable("outbox")
+      .set((eb) => ({
+        status: "sending",
+        attempts: eb("attempts", "+", 1),
+        updated_at: Date.now(),
+      }))
+      .where("id", "=", item.id)
+      .where("status", "=", "queued")
+      .execute();
+    if (Number(claimed[0]?.numUpdatedRows ?? 0) === 0) continue;
+
+    try {
+      const params = await loadSendParams(env, db, item);
+      const result = await sendEmail(env, db, params);
+      if (result.status === "failed") {
+        // The message row records the failure; keep the draft and stash so
+        // the item can be rescheduled
+        await db
+          .updateTable("outbox")
+          .set({
+            status: "failed",
+            last_error: result.last_error ?? null,
+            message_id: result.dbId,
+            updated_at: Date.now(),
+          })
+          .where("id", "=", item.id)
+          .execute();
+        counts.failed++;
+        continue;
+      }
+
+      if (result.status === "pending_outbound" || result.status === "retrying") {
+        // Not sent yet: keep the draft and stash until settleWaitingItems
+        // sees the message go out (or fail, or be rejected)
+        await db
+          .updateTable("outbox")
+          .set({
+            status: result.status,
+            last_error: result.last_error ?? result.approval_reason ?? null,
+            message_id: result.dbId,
+            updated_at: Date.now(),
+          })
+          .where("id", "=", item.id)
+          .execute();
+        continue;
+      }
+
+      await completeOutboxItem(env, db, item, result.dbId);
+      counts.sent++;
+    } catch (err) {
+      await db
+        .updateTable("outbox")
+        .set({ status: "failed", last_error: (err as Error).message, updated_at: Date.now() })
+        .where("id", "=", item.id)
+        .execute();
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,104 @@
+import { normalizeMessageId } from "../messageid";
+import { bytesToBase64 } from "../mime";
+import type { EmailBinding, EmailServiceMessage, EmailServiceResponse, Env } from "../types";
+import {
+  calendarContentType,
+  ProviderError,
+  type EmailProvider,
+  type ProviderSendParams,
+  type ProviderSendResult,
+} from "./provider";
+
+/** The binding throws plain errors; anything not clearly a rejection of the message is transient */
+function isPermanent(message: string): boolean {
+  return /invalid|not allowed|not verified|unauthori[sz]ed|forbidden|rejected/i.test(message);
+}
+
+function toMessage(params: ProviderSendParams): EmailServiceMessage {
+  return {
+    from: params.from,
+    to: params.to,
+    subject: params.subject,
+    text: params.text,
+    html: params.html,
+    cc: params.cc,
+    bcc: params.bcc,
+    replyTo: params.replyTo,
+    ...(params.headers && Object.keys(params.headers).length > 0
+      ? { headers: params.headers }
+      : {}),
+    attachments:
+      params.attachments?.length || params.calendar
+        ? [
+            ...(params.attachments ?? []).map((att) => ({
+              disposition: att.contentId ? ("inline" as const) : ("attachment" as const),
+              filename: att.filename,
+              type: att.contentType ?? "application/octet-stream",
+              content: att.content, // base64 string — CF Email Service accepts this directly
+              ...(att.contentId ? { contentId: att.contentId } : {}),
+            })),
+            // Inline, so clients read it as the message's calendar part
+            ...(params.calendar
+              ? [
+                  {
+                    disposition: "inline" as const,
+                    filename: "invite.ics",
+                    type: calendarContentType(params.calendar),
+                    content: bytesToBase64(new TextEncoder().encode(params.calendar.content)),
+                  },
+                ]
+              : []),
+          ]
+        : undefined,
+  };
+}
+
+function toResult(response: EmailServiceResponse): ProviderSendResult {
+  // Non-X- headers are stripped, so CF assigns its own Message-ID
+  return {
+    messageId: response.messageId,
+    rfcMessageId: response.messageId.includes("@")
+      ? normalizeMessageId(response.messageId)
+      : undefined,
+  };
+}
+
+/** Cloudflare Email Service, via the EMAIL send_email binding */
+export function cloudflareProvider(env: Env): EmailProvider | null {
+  if (!env.EMAIL) return null;
+  const binding: EmailBinding = env.EMAIL;
+
+  return {
+    name: "cloudflare",
+    // CF Email Service beta rejects headers that don't start with X-
+    capabilities: { customHeaders: false, maxBatchSize: 100, maxMessageBytes: 25 * 1024 * 1024 },
+
+    async send(params) {
+      try {
+        return toResult(await binding.send(toMessage(params)));
+      } catch (err) {
+        const message = (err as Error).message;
+        throw new ProviderError(message, !isPermanent(message));
+      }
+    },
+
+    async sendBatch(messages) {
+      let results;
+      try {
+        ({ results } = await binding.sendBatch(messages.map(toMessage)));
+      } catch (err) {
+        const message = (err as Error).message;
+        const error = new ProviderError(message, !isPermanent(message));
+        return messages.map(() => error);
+      }
+      return messages.map((_, i) => {
+        const result = results[i];
+        if (!result) return new ProviderError("Missing result from sendBatch", true);
+        if ("error" in result) {
+          return new ProviderError(result.error.message, !isPermanent(result.error.message));
+        }
+        return toResult(result);
+      });
+    },
+  };
+}
@@ -0,0 +1,240 @@
+import { generateMessageId } from "../messageid";
+import type { Env } from "../types";
+import { cloudflareProvider } from "./cloudflare";
+import { postmarkProvider } from "./postmark";
+import {
+  ProviderError,
+  type EmailProvider,
+  type ProviderSendParams,
+  type ProviderSendResult,
+} from "./provider";
+import { resendProvider } from "./resend";
+
+export * from "./provider";
+
+/** Every backend, in auto-detect order. Each returns null when it isn't configured. */
+const PROVIDERS: Record<string, (env: Env) => EmailProvider | null> = {
+  cloudflare: cloudflareProvider,
+  resend: resendProvider,
+  postmark: postmarkProvider,
+};
+
+/**
+ * Providers to send through, in failover order. EMAIL_PROVIDER may name one
+ * provider or a comma-separated list ("resend,postmark"); when omitted every
+ * configured provider is used in the order above.
+ */
+export function getProviders(env: Env): EmailProvider[] {
+  if (env.EMAIL_PROVIDER) {
+    return env.EMAIL_PROVIDER.split(",").map((name) => {
+      const key = name.trim().toLowerCase();
+      const create = PROVIDERS[key];
+      if (!create) throw new Error(`Unknown email provider '${key}' in EMAIL_PROVIDER`);
+      const provider = create(env);
+      if (!provider) throw new Error(`Email provider '${key}' is listed in EMAIL_PROVIDER but not configured`);
+      return provider;
+    });
+  }
+
+  const configured = Object.values(PROVIDERS)
+    .map((create) => create(env))
+    .filter((p): p is EmailProvider => p !== null);
+  if (configured.length === 0) {
+    throw new Error(
+      "No email provider configured. Set EMAIL_PROVIDER or provide an EMAIL binding / RESEND_API_KEY / POSTMARK_SERVER_TOKEN."
+    );
+  }
+  return configured;
+}
+
+/** A configured provider by name, e.g. to read its status webhooks */
+export function getProviderByName(env: Env, name: string): EmailProvider | null {
+  return PROVIDERS[name]?.(env) ?? null;
+}
+
+/** From address and Reply-To for mail sent through a provider on the default identity */
+export function providerSender(env: Env, provider: EmailProvider) {
+  const overrides = provider.sender ?? {};
+  const fromEmail = overrides.fromEmail || env.FROM_EMAIL;
+  const fromName = overrides.fromName || env.FROM_NAME;
+  const replyTo = overrides.replyTo || env.REPLY_TO_EMAIL;
+  return { fromEmail, fromName, replyTo, from: `${fromName} <${fromEmail}>` };
+}
+
+/** Approximate size of the message as sent: bodies plus base64 attachments */
+export function messageSize(params: ProviderSendParams): number {
+  const encoder = new TextEncoder();
+  let size = encoder.encode(params.subject).length + encoder.encode(params.text).length;
+  if (params.html) size += encoder.encode(params.html).length;
+  if (params.calendar) size += encoder.encode(params.calendar.content).length;
+  for (const att of params.attachments ?? []) size += att.content.length;
+  return size;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1000 * 1000)).toFixed(1)} MB`;
+}
+
+/**
+ * The providers (in failover order) that accept a message of this size.
+ * Throws a permanent ProviderError naming the limits when none do.
+ */
+export function providersForMessage(env: Env, params: ProviderSendParams): EmailProvider[] {
+  const providers = getProviders(env);
+  const size = messageSize(params);
+  const fitting = providers.filter((p) => size <= p.capabilities.maxMessageBytes);
+  if (fitting.length === 0) {
+    const limits = providers
+      .map((p) => `${p.name} ${formatMegabytes(p.capabilities.maxMessageBytes)}`)
+      .join(", ");
+    throw new ProviderError(
+      `Message is ${formatMegabytes(size)} with attachments encoded, over the provider size limit (${limits})`,
+      false
+    );
+  }
+  return fitting;
+}
+
+/** Drop headers the provider would reject */
+function headersFor(
+  provider: EmailProvider,
+  headers: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  if (!headers || provider.capabilities.customHeaders) return headers;
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => name.toLowerCase().startsWith("x-"))
+  );
+}
+
+function domainOf(address: string): string {
+  return address.replace(/>$/, "").split("@")[1]?.toLowerCase() ?? "";
+}
+
+/**
+ * The request as this provider sends it. On the default identity the
+ * provider's own sender replaces From and Reply-To — a fallback provider
+ * rejects another provider's From address or fails SPF/DKIM for it — and a
+ * Message-ID on another domain is regenerated on the sender's domain.
+ */
+function prepareFor(
+  env: Env,
+  provider: EmailProvider,
+  params: ProviderSendParams
+): { request: ProviderSendParams; fromEmail?: string } {
+  if (!params.defaultSender) {
+    return { request: { ...params, headers: headersFor(provider, params.headers) } };
+  }
+
+  const sender = providerSender(env, provider);
+  let headers = params.headers;
+  const messageId = headers?.["Message-ID"];
+  if (messageId && domainOf(messageId) !== domainOf(sender.fromEmail)) {
+    headers = { ...headers, "Message-ID": generateMessageId(sender.fromEmail) };
+  }
+  return {
+    request: {
+      ...params,
+      from: sender.from,
+      replyTo: params.replyTo ?? sender.replyTo,
+      headers: headersFor(provider, headers),
+    },
+    fromEmail: sender.fromEmail,
+  };
+}
+
+/** A provider's result, with the Message-ID and From the request went out with */
+function withIdentity(
+  result: ProviderSendResult,
+  prepared: { request: ProviderSendParams; fromEmail?: string }
+): ProviderSendResult {
+  const messageId = prepared.request.headers?.["Message-ID"];
+  return {
+    ...result,
+    rfcMessageId: result.rfcMessageId ?? messageId,
+    ...(prepared.fromEmail ? { fromEmail: prepared.fromEmail } : {}),
+  };
+}
+
+/**
+ * Send through the first provider, moving on to the next one when it fails
+ * transiently (outage, rate limit). A permanent error is about the message
+ * itself and is thrown straight away.
+ */
+export async function providerSend(
+  env: Env,
+  params: ProviderSendParams
+): Promise<ProviderSendResult & { provider: string }> {
+  let lastError: ProviderError | undefined;
+  for (const provider of providersForMessage(env, params)) {
+    try {
+      const prepared = prepareFor(env, provider, params);
+      const result = await provider.send(prepared.request);
+      return { ...withIdentity(result, prepared), provider: provider.name };
+    } catch (err) {
+      if (!(err instanceof ProviderError) || !err.transient) throw err;
+      console.error(`Provider ${provider.name} failed, trying the next one:`, err.message);
+      lastError = err;
+    }
+  }
+  throw lastError!;
+}
+
+/**
+ * Send many messages through the providers' batch APIs, in chunks of each
+ * provider's maxBatchSize. Messages that fail transiently move on to the
+ * next provider, like providerSend; one result per message, in order.
+ * Each chunk's outcome is kept on its own: a call that throws only fails
+ * the messages in that chunk, never ones an earlier chunk already sent.
+ */
+export async function providerSendBatch(
+  env: Env,
+  messages: ProviderSendParams[]
+): Promise<(ProviderSendResult | ProviderError)[]> {
+  const results: (ProviderSendResult | ProviderError)[] = new Array(messages.length);
+  for (const [i, message] of messages.entries()) {
+    try {
+      providersForMessage(env, message);
+    } catch (err) {
+      results[i] = err as ProviderError;
+    }
+  }
+  let pending = messages.map((_, i) => i).filter((i) => !results[i]);
+
+  for (const provider of getProviders(env)) {
+    const { maxBatchSize, maxMessageBytes } = provider.capabilities;
+    const fitting = pending.filter((i) => messageSize(messages[i]) <= maxMessageBytes);
+    const retry: number[] = pending.filter((i) => !fitting.includes(i));
+
+    for (let start = 0; start < fitting.length; start += maxBatchSize) {
+      const chunk = fitting.slice(start, start + maxBatchSize);
+      const prepared = chunk.map((i) => prepareFor(env, provider, messages[i]));
+      let outcomes: (ProviderSendResult | ProviderError)[];
+      try {
+        outcomes = await provider.sendBatch(prepared.map((p) => p.request));
+      } catch (err) {
+        const failure =
+          err instanceof ProviderError ? err : new ProviderError((err as Error).message, true);
+        outcomes = chunk.map(() => failure);
+      }
+      for (const [j, index] of chunk.entries()) {
+        const outcome = outcomes[j];
+        if (outcome instanceof ProviderError) {
+          if (outcome.transient) {
+            console.error(`Provider ${provider.name} failed, trying the next one:`, outcome.message);
+            retry.push(index);
+          }
+          results[index] = outcome;
+        } else {
+          results[index] = withIdentity(outcome, prepared[j]);
+        }
+      }
+    }
+
+    pending = retry;
+    if (pending.length === 0) break;
+  }
+
+  // Anything still pending keeps the last provider's transient error
+  return results;
+}
+
@@ -0,0 +1,153 @@
+import type { Env } from "../types";
+import { bytesToBase64 } from "../mime";
+import {
+  calendarContentType,
+  ProviderError,
+  type EmailProvider,
+  type ProviderSendParams,
+  type ProviderSendResult,
+  type StatusUpdate,
+} from "./provider";
+
+const API_URL = "https://api.postmarkapp.com";
+
+const STATUS_MAP: Record<string, StatusUpdate["status"]> = {
+  Delivery: "delivered",
+  Bounce: "bounced",
+  SpamComplaint: "complained",
+};
+
+/** Per-message response from /email and /email/batch */
+interface PostmarkResponse {
+  ErrorCode: number;
+  Message: string;
+  MessageID?: string;
+}
+
+function toMessage(params: ProviderSendParams, stream: string | undefined) {
+  return {
+    From: params.from,
+    To: params.to.join(", "),
+    Cc: params.cc?.join(", "),
+    Bcc: params.bcc?.join(", "),
+    Subject: params.subject,
+    TextBody: params.text,
+    HtmlBody: params.html,
+    ReplyTo: params.replyTo,
+    Headers: Object.entries(params.headers ?? {}).map(([Name, Value]) => ({ Name, Value })),
+    Attachments: [
+      ...(params.attachments ?? []).map((att) => ({
+        Name: att.filename,
+        Content: att.content,
+        ContentType: att.contentType ?? "application/octet-stream",
+        ...(att.contentId ? { ContentID: `cid:${att.contentId}` } : {}),
+      })),
+      // The API has no custom body parts; a text/calendar part with the method is the closest
+      ...(params.calendar
+        ? [
+            {
+              Name: "invite.ics",
+              Content: bytesToBase64(new TextEncoder().encode(params.calendar.content)),
+              ContentType: calendarContentType(params.calendar),
+            },
+          ]
+        : []),
+    ],
+    MessageStream: stream,
+  };
+}
+
+function toResult(response: PostmarkResponse): ProviderSendResult | ProviderError {
+  if (response.ErrorCode !== 0) {
+    // 405 (account out of credits) is an account problem another provider
+    // or a later attempt can get past; other codes are about the message
+    return new ProviderError(response.Message, response.ErrorCode === 405);
+  }
+  return { messageId: response.MessageID ?? "" };
+}
+
+/** Postmark, via POSTMARK_SERVER_TOKEN */
+export function postmarkProvider(env: Env): EmailProvider | null {
+  const token = env.POSTMARK_SERVER_TOKEN;
+  if (!token) return null;
+
+  async function request<T>(path: string, body: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${API_URL}${path}`, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          "X-Postmark-Server-Token": token!,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new ProviderError((err as Error).message, true);
+    }
+
+    // 422 carries a per-message error body; 429 and 5xx are worth retrying
+    if (!response.ok && response.status !== 422) {
+      const transient = response.status === 429 || response.status >= 500;
+      throw new ProviderError(`Postmark returned ${response.status}`, transient);
+    }
+    return response.json<T>();
+  }
+
+  return {
+    name: "postmark",
+    capabilities: { customHeaders: true, maxBatchSize: 500, maxMessageBytes: 10 * 1000 * 1000 },
+    webhookSecret: env.POSTMARK_WEBHOOK_SECRET,
+
+    async send(params) {
+      const result = toResult(
+        await request<PostmarkResponse>("/email", toMessage(params, env.POSTMARK_MESSAGE_STREAM))
+      );
+      if (result instanceof ProviderError) throw result;
+      return result;
+    },
+
+    async sendBatch(messages) {
+      let responses: PostmarkResponse[];
+      try {
+        responses = await request<PostmarkResponse[]>(
+          "/email/batch",
+          messages.map((m) => toMessage(m, env.POSTMARK_MESSAGE_STREAM))
+        );
+      } catch (err) {
+        const error =
+          err instanceof ProviderError ? err : new ProviderError((err as Error).message, true);
+        return messages.map(() => error);
+      }
+      return messages.map((_, i) =>
+        responses[i] ? toResult(responses[i]) : new ProviderError("Missing batch result", true)
+      );
+    },
+
+    parseStatusWebhook(payload) {
+      const event = payload as {
+        RecordType?: string;
+        MessageID?: string;
+        Type?: string;
+        Inactive?: boolean;
+        Email?: string;
+      };
+      const status = event.RecordType ? STATUS_MAP[event.RecordType] : undefined;
+      if (!status || !event.MessageID) return [];
+
+      // Postmark deactivates addresses after hard bounces and complaints; soft
+      // bounces (mailbox full, auto-replies) leave them active
+      const suppress =
+        status === "complained" ||
+        (status === "bounced" && (event.Inactive === true || event.Type === "HardBounce"));
+      return [
+        {
+          providerMessageId: event.MessageID,
+          status,
+          ...(suppress && event.Email ? { suppress: [event.Email] } : {}),
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,103 @@
+// ---------------------------------------------------------------------------
+// Email provider interface
+// ---------------------------------------------------------------------------
+
+/** Resolved attachment ready to send */
+export interface ResolvedAttachment {
+  content: string; // base64
+  filename: string;
+  contentType?: string;
+  /** Content-ID (no angle brackets); sends the part inline for `cid:` references */
+  contentId?: string;
+}
+
+/**
+ * An iTIP calendar body (REQUEST, REPLY, ...). Calendar clients only act on
+ * it as a `text/calendar; method=...` body part, not as a named .ics file.
+ */
+export interface CalendarPart {
+  method: string;
+  /** iCalendar text */
+  content: string;
+}
+
+/** Content type of the calendar body part */
+export function calendarContentType(part: CalendarPart): string {
+  return `text/calendar; method=${part.method}; charset=UTF-8`;
+}
+
+/** Params for the provider-level send call */
+export interface ProviderSendParams {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  headers?: Record<string, string>;
+  attachments?: ResolvedAttachment[];
+  calendar?: CalendarPart;
+  /**
+   * Sent from the default identity: From (and Reply-To, unless set) are
+   * replaced with each provider's own sender during failover
+   */
+  defaultSender?: boolean;
+}
+
+/** Result from the underlying email provider */
+export interface ProviderSendResult {
+  /** Provider's own id for the message */
+  messageId: string;
+  /** The Message-ID the provider actually used, when it replaced ours */
+  rfcMessageId?: string;
+  /** Address the message went out from, when failover switched the default sender */
+  fromEmail?: string;
+}
+
+/**
+ * A provider rejected or failed a send. `transient` errors (rate limits,
+ * 5xx, network) are retried; anything else fails the message immediately.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly transient: boolean
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export interface ProviderCapabilities {
+  /** Passes arbitrary headers (Message-ID, In-Reply-To, ...); otherwise only X- headers */
+  customHeaders: boolean;
+  /** Most messages accepted by one sendBatch call */
+  maxBatchSize: number;
+  /** Largest message accepted, counting bodies and base64-encoded attachments */
+  maxMessageBytes: number;
+}
+
+/** A delivery status change reported by a provider webhook */
+export interface StatusUpdate {
+  providerMessageId: string;
+  status: "sent" | "delivered" | "bounced" | "complained";
+  /** Recipients to stop mailing: hard-bounced or complaining addresses */
+  suppress?: string[];
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  /** Sender identity overrides for this provider (falls back to FROM_EMAIL etc.) */
+  readonly sender?: { fromEmail?: string; fromName?: string; replyTo?: string };
+  /** Token expected in `?token=` on this provider's status webhook */
+  readonly webhookSecret?: string;
+
+  send(params: ProviderSendParams): Promise<ProviderSendResult>;
+  /** Send several messages in one call; one result (or error) per message, in order */
+  sendBatch(messages: ProviderSendParams[]): Promise<(ProviderSendResult | ProviderError)[]>;
+  /** Translate a status webhook payload into status updates */
+  parseStatusWebhook?(payload: unknown): StatusUpdate[];
+}
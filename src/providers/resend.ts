@@ -0,0 +1,134 @@
+import { Resend, type CreateEmailOptions, type ErrorResponse } from "resend";
+import { bytesToBase64 } from "../mime";
+import type { Env } from "../types";
+import {
+  calendarContentType,
+  ProviderError,
+  type EmailProvider,
+  type ProviderSendParams,
+  type StatusUpdate,
+} from "./provider";
+
+const STATUS_MAP: Record<string, StatusUpdate["status"]> = {
+  "email.sent": "sent",
+  "email.delivered": "delivered",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+};
+
+/** Rate limits and server-side errors are worth retrying; 4xx are not */
+function toProviderError(error: ErrorResponse): ProviderError {
+  const transient = ["rate_limit_exceeded", "application_error", "internal_server_error"].includes(
+    error.name
+  );
+  return new ProviderError(error.message, transient);
+}
+
+function toEmail(params: ProviderSendParams): CreateEmailOptions {
+  return {
+    from: params.from,
+    to: params.to,
+    cc: params.cc,
+    bcc: params.bcc,
+    subject: params.subject,
+    text: params.text,
+    html: params.html,
+    replyTo: params.replyTo,
+    headers: params.headers,
+    attachments:
+      params.attachments?.length || params.calendar
+        ? [
+            ...(params.attachments ?? []).map((att) => ({
+              content: att.content,
+              filename: att.filename,
+              contentType: att.contentType,
+              ...(att.contentId ? { inlineContentId: att.contentId } : {}),
+            })),
+            // Unnamed, so it isn't offered as an .ics file
+            ...(params.calendar
+              ? [
+                  {
+                    content: bytesToBase64(new TextEncoder().encode(params.calendar.content)),
+                    filename: false as const,
+                    contentType: calendarContentType(params.calendar),
+                  },
+                ]
+              : []),
+          ]
+        : undefined,
+  };
+}
+
+/** Resend, via RESEND_API_KEY */
+export function resendProvider(env: Env): EmailProvider | null {
+  if (!env.RESEND_API_KEY) return null;
+  const resend = new Resend(env.RESEND_API_KEY);
+
+  return {
+    name: "resend",
+    capabilities: { customHeaders: true, maxBatchSize: 100, maxMessageBytes: 40 * 1000 * 1000 },
+    sender: {
+      fromEmail: env.RESEND_FROM_EMAIL,
+      fromName: env.RESEND_FROM_NAME,
+      replyTo: env.RESEND_REPLY_TO_EMAIL,
+    },
+    webhookSecret: env.RESEND_WEBHOOK_SECRET,
+
+    async send(params) {
+      const { data, error } = await resend.emails.send(toEmail(params));
+      if (error) throw toProviderError(error);
+      return { messageId: data?.id ?? "" };
+    },
+
+    async sendBatch(messages) {
+      // The batch endpoint doesn't take attachments; send those one by one
+      if (messages.some((m) => (m.attachments && m.attachments.length > 0) || m.calendar)) {
+        return Promise.all(
+          messages.map((m) =>
+            this.send(m).catch((err: Error) =>
+              err instanceof ProviderError ? err : new ProviderError(err.message, true)
+            )
+          )
+        );
+      }
+
+      let data, error;
+      try {
+        ({ data, error } = await resend.batch.send(messages.map(toEmail)));
+      } catch (err) {
+        const failure = new ProviderError((err as Error).message, true);
+        return messages.map(() => failure);
+      }
+      if (error) {
+        const failure = toProviderError(error);
+        return messages.map(() => failure);
+      }
+      return messages.map((_, i) => ({ messageId: data?.data[i]?.id ?? "" }));
+    },
+
+    parseStatusWebhook(payload) {
+      const event = payload as {
+        type?: string;
+        data?: { email_id?: string; to?: string[]; bounce?: { type?: string } };
+      };
+      const status = event.type ? STATUS_MAP[event.type] : undefined;
+      if (!status || !event.data?.email_id) return [];
+
+      // Only Permanent bounces make an address undeliverable; Transient and
+      // Undetermined ones are soft. The event doesn't say which recipient
+      // bounced or complained, so only a single-recipient email is suppressed.
+      const recipients = event.data.to ?? [];
+      const suppress =
+        recipients.length === 1 &&
+        (status === "complained" ||
+          (status === "bounced" && event.data.bounce?.type === "Permanent"));
+      return [
+        {
+          providerMessageId: event.data.email_id,
+          status,
+          ...(suppress ? { suppress: recipients } : {}),
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import type { Kysely } from "kysely";
+import type { Database } from "./db/schema";
+import type { Env } from "./types";
+
+/** Objects younger than this may belong to an ingestion that is still in flight */
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+export interface ReconcileResult {
+  scanned: number;
+  orphaned: string[];
+  deleted: number;
+}
+
+/** Keys (from a chunk of candidates) that are still referenced by a D1 row */
+async function referencedKeys(
+  db: Kysely<Database>,
+  keys: string[]
+): Promise<Set<string>> {
+  const raw = keys.filter((k) => k.startsWith("raw/"));
+  const outbox = keys.filter((k) => k.startsWith("outbox/"));
+  const attachments = keys.filter((k) => !k.startsWith("raw/") && !k.startsWith("outbox/"));
+  const known = new Set<string>();
+
+  if (attachments.length > 0) {
+    const rows = await db
+      .selectFrom("attachments")
+      .select("r2_key")
+      .where("r2_key", "in", attachments)
+      .execute();
+    rows.forEach((r) => known.add(r.r2_key));
+  }
+  if (raw.length > 0) {
+    const rows = await db
+      .selectFrom("messages")
+      .select("raw_r2_key")
+      .where("raw_r2_key", "in", raw)
+      .execute();
+    rows.forEach((r) => known.add(r.raw_r2_key!));
+  }
+  if (outbox.length > 0) {
+    // outbox/<id>/<n>: inline attachments of a scheduled send that may still go out
+    const ids = [...new Set(outbox.map((k) => k.split("/")[1]))];
+    const rows = await db
+      .selectFrom("outbox")
+      .select("id")
+      .where("id", "in", ids)
+      .where("status", "in", ["queued", "sending", "pending_outbound", "retrying", "failed"])
+      .execute();
+    const pending = new Set(rows.map((r) => r.id));
+    outbox.filter((k) => pending.has(k.split("/")[1])).forEach((k) => known.add(k));
+  }
+  return known;
+}
+
+/**
+ * Find R2 objects in the ATTACHMENTS bucket with no `attachments` row (or,
+ * for raw/*.eml sources, no `messages.raw_r2_key`; for outbox/ attachments,
+ * no pending outbox item) — left behind when
+ * ingestion or a send failed after uploading — and delete them. With
+ * `dryRun`, only reports what would be deleted.
+ */
+export async function reconcileAttachments(
+  env: Env,
+  db: Kysely<Database>,
+  options: { dryRun?: boolean; maxObjects?: number } = {}
+): Promise<ReconcileResult> {
+  const maxObjects = options.maxObjects ?? 5000;
+  const cutoff = Date.now() - ORPHAN_GRACE_MS;
+  const result: ReconcileResult = { scanned: 0, orphaned: [], deleted: 0 };
+
+  let cursor: string | undefined;
+  do {
+    const page = await env.ATTACHMENTS.list({ cursor, limit: 500 });
+    cursor = page.truncated ? page.cursor : undefined;
+
+    const candidates = page.objects
+      .filter((o) => o.uploaded.getTime() < cutoff)
+      .map((o) => o.key);
+    result.scanned += page.objects.length;
+
+    // D1 caps bound parameters per statement, so look keys up in chunks
+    for (let i = 0; i < candidates.length; i += 50) {
+      const chunk = candidates.slice(i, i + 50);
+      const knownKeys = await referencedKeys(db, chunk);
+      result.orphaned.push(...chunk.filter((key) => !knownKeys.has(key)));
+    }
+  } while (cursor && result.scanned < maxObjects);
+
+  if (!options.dryRun) {
+    // R2 deletes accept up to 1000 keys per call
+    for (let i = 0; i < result.orphaned.length; i += 1000) {
+      const chunk = result.orphaned.slice(i, i + 1000);
+      await env.ATTACHMENTS.delete(chunk);
+      result.deleted += chunk.length;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,92 @@
+import PostalMime from "postal-mime";
+import { sql, type Kysely } from "kysely";
+import type { Database } from "./db/schema";
+import { deriveMessageFields } from "./email";
+import { normalizeContentId } from "./html";
+import { getAuthservId } from "./authresults";
+import type { Env } from "./types";
+
+export interface ReparseResult {
+  processed: number;
+  failed: { id: string; error: string }[];
+  /** Pass as `cursor` to continue; null when done */
+  next_cursor: string | null;
+}
+
+/**
+ * Re-run parsing over stored raw messages and rewrite the derived columns
+ * (bodies, sanitized HTML, headers, auth verdicts, category, ...). Threading, approval and
+ * mailbox assignment are left alone. Pages through messages by id so large
+ * mailboxes can be backfilled across several calls.
+ */
+export async function reparseStoredMessages(
+  env: Env,
+  db: Kysely<Database>,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<ReparseResult> {
+  const limit = options.limit ?? 50;
+
+  let query = db
+    .selectFrom("messages")
+    .select(["id", "from", "to", "raw_r2_key"])
+    .where("raw_r2_key", "is not", null)
+    .orderBy("id", "asc")
+    .limit(limit);
+  if (options.cursor) query = query.where("id", ">", options.cursor);
+
+  const messages = await query.execute();
+  const result: ReparseResult = { processed: 0, failed: [], next_cursor: null };
+
+  for (const msg of messages) {
+    try {
+      const obj = await env.ATTACHMENTS.get(msg.raw_r2_key!);
+      if (!obj) throw new Error(`R2 object ${msg.raw_r2_key} not found`);
+
+      const parsed = await PostalMime.parse(await obj.arrayBuffer());
+      const parts = parsed.attachments ?? [];
+
+      // Stored attachment rows are in MIME order; when the counts agree they
+      // can be matched to the parsed parts to fill in disposition/content_id
+      const stored = await db
+        .selectFrom("attachments")
+        .select(["id", "content_id"])
+        .where("message_id", "=", msg.id)
+        .orderBy(sql`rowid`)
+        .execute();
+      const aligned = stored.length === parts.length;
+
+      const cidMap = new Map<string, string>();
+      for (const [i, row] of stored.entries()) {
+        const contentId = row.content_id ?? (aligned ? parts[i].contentId : undefined);
+        if (contentId) cidMap.set(normalizeContentId(contentId), row.id);
+      }
+
+      const { columns } = await deriveMessageFields(
+        parsed,
+        { from: msg.from, to: msg.to },
+        getAuthservId(env),
+        cidMap
+      );
+
+      await db.updateTable("messages").set(columns).where("id", "=", msg.id).execute();
+      if (aligned) {
+        for (const [i, row] of stored.entries()) {
+          await db
+            .updateTable("attachments")
+            .set({
+              disposition: parts[i].disposition ?? null,
+              content_id: parts[i].contentId ? normalizeContentId(parts[i].contentId!) : null,
+            })
+            .where("id", "=", row.id)
+            .execute();
+        }
+      }
+      result.processed++;
+    } catch (err) {
+      result.failed.push({ id: msg.id, error: (err as Error).message });
+    }
+  }
+
+  if (messages.length === limit) result.next_cursor = messages[messages.length - 1].id;
+  return result;
+}
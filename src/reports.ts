@@ -0,0 +1,246 @@
+import type { Email } from "postal-mime";
+import type { Kysely } from "kysely";
+import type { Database, DeliveryReport, DeliveryReportKind, NewDeliveryReport } from "./db/schema";
+import { normalizeMessageId, parseMessageIds } from "./messageid";
+import { parseAddressList } from "./mailboxes";
+import { suppressAddress } from "./suppressions";
+
+/** A header-style field block ("Name: value" lines), keys lowercased */
+type Fields = Map<string, string>;
+
+/** Reported outcome for one recipient */
+interface ReportEntry {
+  recipient: string | null;
+  action: string;
+  statusCode: string | null;
+  diagnostic: string | null;
+}
+
+/** Message status a report moves an outbound message to, by DSN Action */
+const ACTION_STATUS: Record<string, string> = {
+  failed: "bounced",
+  delayed: "delayed",
+  delivered: "delivered",
+  relayed: "delivered",
+  expanded: "delivered",
+};
+
+/** A report never moves a message back to a less final status */
+const STATUS_RANK: Record<string, number> = {
+  delayed: 1,
+  delivered: 2,
+  bounced: 3,
+  complained: 4,
+};
+
+function decodePart(content: ArrayBuffer | Uint8Array | string): string {
+  return typeof content === "string" ? content : new TextDecoder().decode(content);
+}
+
+/** Split a report body into blank-line separated field blocks, unfolding continuation lines */
+function parseFieldBlocks(text: string): Fields[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const fields: Fields = new Map();
+      for (const line of block.replace(/\n[ \t]+/g, " ").split("\n")) {
+        const colon = line.indexOf(":");
+        if (colon <= 0) continue;
+        const name = line.slice(0, colon).trim().toLowerCase();
+        if (!fields.has(name)) fields.set(name, line.slice(colon + 1).trim());
+      }
+      return fields;
+    })
+    .filter((fields) => fields.size > 0);
+}
+
+/** "rfc822; user@example.com" → "user@example.com" */
+function typedAddress(value: string | undefined): string | null {
+  if (!value) return null;
+  const address = value.includes(";") ? value.slice(value.indexOf(";") + 1) : value;
+  return parseAddressList(address)[0] ?? null;
+}
+
+/** Message-ID of the original message, from the attached message or headers part */
+function originalMessageId(parsed: Email): string | null {
+  const original = (parsed.attachments ?? []).find((att) =>
+    ["message/rfc822", "text/rfc822-headers", "message/rfc822-headers"].includes(
+      att.mimeType.toLowerCase()
+    )
+  );
+  if (original) {
+    const [headers] = parseFieldBlocks(decodePart(original.content));
+    const messageId = headers?.get("message-id");
+    if (messageId) return normalizeMessageId(messageId);
+  }
+  // Some MTAs thread the bounce onto the original instead
+  return parseMessageIds(parsed.inReplyTo)[0] ?? null;
+}
+
+/**
+ * Recognize a multipart/report delivery status notification (RFC 3464) or
+ * feedback report (RFC 5965, ARF) and pull out one entry per recipient.
+ * Returns null for any other message.
+ */
+export function parseDeliveryReport(
+  parsed: Email
+): { kind: DeliveryReportKind; originalMessageId: string | null; entries: ReportEntry[] } | null {
+  const contentType = parsed.headers.find((h) => h.key.toLowerCase() === "content-type")?.value;
+  if (!contentType || !/^\s*multipart\/report\b/i.test(contentType)) return null;
+
+  const parts = parsed.attachments ?? [];
+  const dsn = parts.find((att) =>
+    ["message/delivery-status", "message/global-delivery-status"].includes(att.mimeType.toLowerCase())
+  );
+  if (dsn) {
+    // The first block is per-message fields; each following one is a recipient
+    const [, ...recipients] = parseFieldBlocks(decodePart(dsn.content));
+    const entries = recipients
+      .filter((fields) => fields.has("action"))
+      .map((fields) => ({
+        recipient: typedAddress(fields.get("final-recipient") ?? fields.get("original-recipient")),
+        action: fields.get("action")!.toLowerCase(),
+        statusCode: fields.get("status")?.match(/\d\.\d{1,3}\.\d{1,3}/)?.[0] ?? null,
+        diagnostic: fields.get("diagnostic-code") ?? null,
+      }));
+    if (entries.length === 0) return null;
+    return { kind: "dsn", originalMessageId: originalMessageId(parsed), entries };
+  }
+
+  const arf = parts.find((att) => att.mimeType.toLowerCase() === "message/feedback-report");
+  if (arf) {
+    const [fields] = parseFieldBlocks(decodePart(arf.content));
+    if (!fields) return null;
+    return {
+      kind: "arf",
+      originalMessageId: originalMessageId(parsed),
+      entries: [
+        {
+          recipient: typedAddress(fields.get("original-rcpt-to")),
+          action: fields.get("feedback-type")?.toLowerCase() ?? "abuse",
+          statusCode: null,
+          diagnostic: fields.get("user-agent") ?? null,
+        },
+      ],
+    };
+  }
+
+  return null;
+}
+
+/** "5.1.1 smtp; 550 5.1.1 <bob@example.com>: user unknown" */
+function statusDetail(kind: DeliveryReportKind, entry: ReportEntry): string {
+  if (kind === "arf") return `${entry.action} feedback report`;
+  return [entry.statusCode, entry.diagnostic].filter(Boolean).join(" ") || entry.action;
+}
+
+/**
+ * Store an inbound delivery report and apply it to the outbound message it
+ * refers to: update its status and status_detail, and suppress recipients
+ * that hard-bounced (5.x.x) or complained. Only recipients of that message
+ * are suppressed, so a forged report can't block arbitrary addresses.
+ * Returns false when the message isn't a report and should be stored as mail.
+ * `dedupeKey` is the bare message key, without the recipient suffix inbound
+ * messages use: a report redelivered to another of our addresses is the
+ * same report.
+ */
+export async function handleDeliveryReport(
+  db: Kysely<Database>,
+  parsed: Email,
+  envelope: { from: string },
+  dedupeKey: string
+): Promise<boolean> {
+  const report = parseDeliveryReport(parsed);
+  if (!report) return false;
+
+  const existing = await db
+    .selectFrom("delivery_reports")
+    .select("id")
+    .where("dedupe_key", "=", dedupeKey)
+    .executeTakeFirst();
+  if (existing) {
+    console.log(`Skipping duplicate delivery report ${dedupeKey}`);
+    return true;
+  }
+
+  const original = report.originalMessageId
+    ? await db
+        .selectFrom("messages")
+        .select(["id", "to", "cc", "bcc", "status"])
+        .where("message_id", "=", report.originalMessageId)
+        .where("direction", "=", "outbound")
+        .executeTakeFirst()
+    : undefined;
+  const recipients = original
+    ? parseAddressList([original.to, original.cc, original.bcc].filter(Boolean).join(", "))
+    : [];
+
+  const now = Date.now();
+  const reporter = (parsed.from?.address ?? envelope.from).toLowerCase();
+  let status = original?.status ?? null;
+  let detail: string | null = null;
+
+  for (const entry of report.entries) {
+    // Complaint loops often redact the recipient; a single-recipient message can only be one
+    const recipient =
+      entry.recipient ?? (report.kind === "arf" && recipients.length === 1 ? recipients[0] : null);
+    const row: NewDeliveryReport = {
+      id: crypto.randomUUID(),
+      kind: report.kind,
+      message_id: original?.id ?? null,
+      original_message_id: report.originalMessageId,
+      recipient,
+      action: entry.action,
+      status_code: entry.statusCode,
+      diagnostic: entry.diagnostic,
+      reporter,
+      dedupe_key: dedupeKey,
+      created_at: now,
+    };
+    await db.insertInto("delivery_reports").values(row).execute();
+
+    if (!original) continue;
+
+    const next = report.kind === "arf" ? "complained" : ACTION_STATUS[entry.action];
+    if (next && (STATUS_RANK[next] ?? 0) >= (STATUS_RANK[status ?? ""] ?? 0)) {
+      status = next;
+      detail = statusDetail(report.kind, entry);
+    }
+
+    // 4.x.x failures are soft bounces and don't make the address undeliverable
+    const permanent =
+      report.kind === "arf" || (entry.action === "failed" && !entry.statusCode?.startsWith("4"));
+    if (permanent && recipient && recipients.includes(recipient)) {
+      await suppressAddress(db, recipient, report.kind === "arf" ? "complaint" : "bounce", {
+        detail: `${report.kind.toUpperCase()} report from ${reporter}: ${statusDetail(report.kind, entry)}`,
+        messageId: original.id,
+      });
+    }
+  }
+
+  if (original && detail) {
+    await db
+      .updateTable("messages")
+      .set({ status, status_detail: detail })
+      .where("id", "=", original.id)
+      .execute();
+  }
+
+  return true;
+}
+
+/** Stored delivery reports, newest first, optionally only those for one outbound message */
+export async function listDeliveryReports(
+  db: Kysely<Database>,
+  options: { messageId?: string; limit?: number; offset?: number } = {}
+): Promise<DeliveryReport[]> {
+  let query = db
+    .selectFrom("delivery_reports")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(options.limit ?? 100)
+    .offset(options.offset ?? 0);
+  if (options.messageId) query = query.where("message_id", "=", options.messageId);
+  return query.execute();
+}
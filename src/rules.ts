@@ -0,0 +1,440 @@
+import type { Kysely, Updateable } from "kysely";
+import { z } from "zod";
+import type { Database, Rule, RuleTable } from "./db/schema";
+import { archiveMessage } from "./archive";
+import { isSenderDenied } from "./senders";
+import {
+  extractAuthVerdicts,
+  getAuthservId,
+  getSenderAuthPolicy,
+  passesSenderAuthPolicy,
+} from "./authresults";
+import { dispatchWebhook } from "./webhooks";
+import type { Env } from "./types";
+
+// ---------------------------------------------------------------------------
+// Rule definitions
+// ---------------------------------------------------------------------------
+
+/** Longest pattern accepted for the `matches` op */
+const MAX_PATTERN_LENGTH = 200;
+
+/** Only this much of a field is run through a `matches` regex */
+const MAX_MATCH_INPUT = 10_000;
+
+/**
+ * Whether a quantified group itself contains a quantifier, like (a+)+ or
+ * (x(.*))*, the usual shape of catastrophic backtracking
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // For each open group: whether anything inside it is quantified
+  const groups: boolean[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      const inner = groups.pop() ?? false;
+      const quantified = /[*+{]/.test(pattern[i + 1] ?? "");
+      if (inner && quantified) return true;
+      if (groups.length > 0 && (inner || quantified)) groups[groups.length - 1] = true;
+    } else if (/[*+{]/.test(ch) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/** Why a `matches` pattern is refused, or null if it may be used */
+export function patternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch (err) {
+    return (err as Error).message;
+  }
+  if (/\\[1-9]|\\k</.test(pattern)) return "Backreferences are not supported";
+  if (hasNestedQuantifier(pattern)) {
+    return "Nested quantifiers such as (a+)+ are not supported; they can backtrack for a very long time";
+  }
+  return null;
+}
+
+export const ruleConditionSchema = z.object({
+  field: z
+    .enum(["from", "to", "subject", "body", "header", "has_attachment"])
+    .describe("Field to match. 'to' covers To and Cc; 'body' covers text and HTML"),
+  op: z
+    .enum(["contains", "equals", "starts_with", "ends_with", "matches"])
+    .optional()
+    .default("contains")
+    .describe("Comparison (case-insensitive). 'matches' is a regular expression"),
+  value: z.string().optional().default("").describe("Value to compare against (ignored for has_attachment)"),
+  header: z.string().optional().describe("Header name when field is 'header'"),
+  negate: z.boolean().optional().default(false).describe("Invert the result"),
+}).superRefine((cond, ctx) => {
+  const error = cond.op === "matches" ? patternError(cond.value) : null;
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: error });
+});
+
+export const ruleActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("add_labels"), labels: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("archive") }),
+  z.object({ type: z.literal("approve") }),
+  z.object({ type: z.literal("forward"), to: z.string().describe("Verified Email Routing destination") }),
+  z.object({ type: z.literal("webhook"), url: z.string().url() }),
+]);
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+
+export const ruleInputSchema = {
+  name: z.string().describe("Rule name"),
+  match_mode: z.enum(["all", "any"]).optional().default("all").describe("Require all or any conditions to match"),
+  conditions: z.array(ruleConditionSchema).min(1).describe("Conditions to evaluate"),
+  actions: z.array(ruleActionSchema).min(1).describe("Actions to run when the rule matches"),
+  priority: z.number().optional().default(0).describe("Lower runs first"),
+  enabled: z.boolean().optional().default(true).describe("Whether the rule runs on inbound mail"),
+  stop_processing: z.boolean().optional().default(false).describe("Skip later rules when this one matches"),
+};
+
+export const ruleInput = z.object(ruleInputSchema);
+export type RuleInput = z.infer<typeof ruleInput>;
+
+/** Fields of an existing rule to change; omitted ones are left as they are */
+export const ruleUpdateInput = ruleInput.partial();
+export type RuleUpdate = z.infer<typeof ruleUpdateInput>;
+
+/** Rule with conditions/actions decoded */
+export interface ParsedRule extends Omit<Rule, "conditions" | "actions"> {
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+/** The parts of a message a rule can look at */
+export interface RuleSubject {
+  from: string;
+  to: string;
+  cc: string | null;
+  subject: string;
+  body_text: string | null;
+  body_html: string | null;
+  headers: { key: string; value: string }[];
+  has_attachment: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function compare(op: RuleCondition["op"], haystack: string, needle: string): boolean {
+  const h = haystack.toLowerCase();
+  const n = needle.toLowerCase();
+  switch (op) {
+    case "equals":
+      return h === n;
+    case "starts_with":
+      return h.startsWith(n);
+    case "ends_with":
+      return h.endsWith(n);
+    case "matches":
+      // Patterns are checked when the rule is saved; older rules get the same check here
+      if (patternError(needle)) return false;
+      return new RegExp(needle, "i").test(haystack.slice(0, MAX_MATCH_INPUT));
+    default:
+      return h.includes(n);
+  }
+}
+
+function evaluateCondition(cond: RuleCondition, msg: RuleSubject): boolean {
+  let result: boolean;
+
+  switch (cond.field) {
+    case "has_attachment":
+      result = msg.has_attachment;
+      break;
+    case "header": {
+      const name = (cond.header ?? "").toLowerCase();
+      result = msg.headers.some(
+        (h) => h.key.toLowerCase() === name && compare(cond.op, h.value, cond.value)
+      );
+      break;
+    }
+    case "to":
+      result = [msg.to, msg.cc]
+        .filter((v): v is string => !!v)
+        .flatMap((v) => v.split(","))
+        .some((addr) => compare(cond.op, addr.trim(), cond.value));
+      break;
+    case "body":
+      result = [msg.body_text, msg.body_html]
+        .filter((v): v is string => !!v)
+        .some((body) => compare(cond.op, body, cond.value));
+      break;
+    default:
+      result = compare(cond.op, msg[cond.field], cond.value);
+  }
+
+  return cond.negate ? !result : result;
+}
+
+export function ruleMatches(
+  rule: Pick<ParsedRule, "match_mode" | "conditions">,
+  msg: RuleSubject
+): boolean {
+  return rule.match_mode === "any"
+    ? rule.conditions.some((c) => evaluateCondition(c, msg))
+    : rule.conditions.every((c) => evaluateCondition(c, msg));
+}
+
+// ---------------------------------------------------------------------------
+// Inbound execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Why an `approve` action must not approve this message, or null if it may:
+ * deny rules and SENDER_AUTH_POLICY win over rules, so a broad rule can't
+ * approve a denied or spoofed sender
+ */
+async function approvalBlockedReason(
+  env: Env,
+  db: Kysely<Database>,
+  msg: RuleSubject
+): Promise<string | null> {
+  if (await isSenderDenied(db, msg.from)) return "sender matches a deny rule";
+  const verdicts = extractAuthVerdicts(msg.headers, getAuthservId(env));
+  if (!passesSenderAuthPolicy(getSenderAuthPolicy(env), verdicts)) {
+    return "sender fails SENDER_AUTH_POLICY";
+  }
+  return null;
+}
+
+/**
+ * Run enabled rules against a freshly stored inbound message. Returns the
+ * ids of matched rules and whether an `approve` action fired.
+ */
+export async function runInboundRules(
+  env: Env,
+  db: Kysely<Database>,
+  ctx: ExecutionContext,
+  message: ForwardableEmailMessage,
+  msgId: string,
+  subject: RuleSubject
+): Promise<{ matched: string[]; approved: boolean }> {
+  const rules = await listRules(db, true);
+  const matched: string[] = [];
+  let approved = false;
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, subject)) continue;
+    matched.push(rule.id);
+
+    for (const action of rule.actions) {
+      try {
+        switch (action.type) {
+          case "add_labels": {
+            const now = Date.now();
+            await db
+              .insertInto("message_labels")
+              .values(action.labels.map((label) => ({ message_id: msgId, label, created_at: now })))
+              .onConflict((oc) => oc.columns(["message_id", "label"]).doNothing())
+              .execute();
+            break;
+          }
+          case "archive":
+            await archiveMessage(db, msgId);
+            break;
+          case "approve": {
+            const blocked = await approvalBlockedReason(env, db, subject);
+            if (blocked) {
+              console.log(`Rule ${rule.id} approve skipped for ${msgId}: ${blocked}`);
+              break;
+            }
+            await db
+              .updateTable("messages")
+              .set({ approved: 1 })
+              .where("id", "=", msgId)
+              .execute();
+            approved = true;
+            break;
+          }
+          case "forward":
+            await message.forward(action.to);
+            break;
+          case "webhook":
+            ctx.waitUntil(
+              dispatchWebhook(action.url, env.WEBHOOK_SECRET, "rule.matched", {
+                rule_id: rule.id,
+                rule_name: rule.name,
+                message_id: msgId,
+                from: subject.from,
+                to: subject.to,
+                subject: subject.subject,
+              })
+            );
+            break;
+        }
+      } catch (err) {
+        // One failing action shouldn't drop the message or the other actions
+        console.error(`Rule ${rule.id} action ${action.type} failed:`, err);
+      }
+    }
+
+    if (rule.stop_processing) break;
+  }
+
+  return { matched, approved };
+}
+
+// ---------------------------------------------------------------------------
+// Dry run
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate a rule against the most recent stored inbound messages. Returns
+ * metadata only, since unapproved messages are included.
+ */
+export async function dryRunRule(
+  db: Kysely<Database>,
+  rule: Pick<ParsedRule, "match_mode" | "conditions">,
+  limit: number
+): Promise<{ scanned: number; matches: { id: string; from: string; subject: string; created_at: number }[] }> {
+  const messages = await db
+    .selectFrom("messages")
+    .select((eb) => [
+      "id",
+      "from",
+      "to",
+      "cc",
+      "subject",
+      "body_text",
+      "body_html",
+      "headers",
+      "created_at",
+      eb
+        .exists(
+          eb.selectFrom("attachments")
+            .select("attachments.id")
+            .whereRef("attachments.message_id", "=", "messages.id")
+        )
+        .as("has_attachment"),
+    ])
+    .where("direction", "=", "inbound")
+    .orderBy("created_at", "desc")
+    .limit(limit)
+    .execute();
+
+  const matches = messages
+    .filter((m) =>
+      ruleMatches(rule, {
+        ...m,
+        headers: m.headers ? JSON.parse(m.headers) : [],
+        has_attachment: !!m.has_attachment,
+      })
+    )
+    .map((m) => ({ id: m.id, from: m.from, subject: m.subject, created_at: m.created_at }));
+
+  return { scanned: messages.length, matches };
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+function parseRule(row: Rule): ParsedRule {
+  return {
+    ...row,
+    conditions: JSON.parse(row.conditions),
+    actions: JSON.parse(row.actions),
+  };
+}
+
+export async function listRules(
+  db: Kysely<Database>,
+  enabledOnly = false
+): Promise<ParsedRule[]> {
+  let query = db
+    .selectFrom("rules")
+    .selectAll()
+    .orderBy("priority", "asc")
+    .orderBy("created_at", "asc");
+  if (enabledOnly) query = query.where("enabled", "=", 1);
+  return (await query.execute()).map(parseRule);
+}
+
+export async function getRule(
+  db: Kysely<Database>,
+  id: string
+): Promise<ParsedRule | null> {
+  const row = await db
+    .selectFrom("rules")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+  return row ? parseRule(row) : null;
+}
+
+export async function createRule(
+  db: Kysely<Database>,
+  input: RuleInput
+): Promise<ParsedRule> {
+  const now = Date.now();
+  const id = crypto.randomUUID();
+
+  await db
+    .insertInto("rules")
+    .values({
+      id,
+      name: input.name,
+      enabled: input.enabled ? 1 : 0,
+      priority: input.priority,
+      match_mode: input.match_mode,
+      conditions: JSON.stringify(input.conditions),
+      actions: JSON.stringify(input.actions),
+      stop_processing: input.stop_processing ? 1 : 0,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  return (await getRule(db, id))!;
+}
+
+export async function updateRule(
+  db: Kysely<Database>,
+  id: string,
+  input: RuleUpdate
+): Promise<ParsedRule | null> {
+  const existing = await getRule(db, id);
+  if (!existing) return null;
+
+  const updates: Updateable<RuleTable> = { updated_at: Date.now() };
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.enabled !== undefined) updates.enabled = input.enabled ? 1 : 0;
+  if (input.priority !== undefined) updates.priority = input.priority;
+  if (input.match_mode !== undefined) updates.match_mode = input.match_mode;
+  if (input.conditions !== undefined) updates.conditions = JSON.stringify(input.conditions);
+  if (input.actions !== undefined) updates.actions = JSON.stringify(input.actions);
+  if (input.stop_processing !== undefined) {
+    updates.stop_processing = input.stop_processing ? 1 : 0;
+  }
+
+  await db.updateTable("rules").set(updates).where("id", "=", id).execute();
+  return getRule(db, id);
+}
+
+export async function deleteRule(
+  db: Kysely<Database>,
+  id: string
+): Promise<boolean> {
+  const result = await db.deleteFrom("rules").where("id", "=", id).execute();
+  return Number(result[0]?.numDeletedRows ?? 0) > 0;
+}
@@ -1,5 +1,12 @@
 import { sql, type Kysely } from "kysely";
-import type { Database, Message } from "./db/schema";
+import type { Database, Message, MessageCategory } from "./db/schema";
+import { mailboxIdQuery } from "./mailboxes";
+
+export interface SearchFilters {
+  /** Mailbox id or address */
+  mailbox?: string;
+  category?: MessageCategory;
+}
 
 function escapeLike(s: string): string {
   return s.replace(/[%_\\]/g, "\\$&");
@@ -9,16 +16,25 @@ export async function searchMessages(
   db: Kysely<Database>,
   query: string,
   limit: number,
-  includeArchived: boolean
+  includeArchived: boolean,
+  filters: SearchFilters = {}
 ): Promise<Message[]> {
   try {
     const archivedFilter = includeArchived ? sql`1=1` : sql`m.archived = 0`;
+    const mailboxFilter = filters.mailbox
+      ? sql`m.mailbox_id IN (${mailboxIdQuery(db, filters.mailbox)})`
+      : sql`1=1`;
+    const categoryFilter = filters.category
+      ? sql`m.category = ${filters.category}`
+      : sql`1=1`;
     const results = await sql`
       SELECT m.* FROM messages m
       JOIN messages_fts f ON f.message_id = m.id
       WHERE f MATCH ${query}
       AND m.approved = 1
       AND ${archivedFilter}
+      AND ${mailboxFilter}
+      AND ${categoryFilter}
       ORDER BY rank
       LIMIT ${limit}
     `.execute(db);
@@ -40,6 +56,10 @@ export async function searchMessages(
       .limit(limit);
 
     if (!includeArchived) q = q.where("archived", "=", 0);
+    if (filters.mailbox) {
+      q = q.where("mailbox_id", "in", mailboxIdQuery(db, filters.mailbox));
+    }
+    if (filters.category) q = q.where("category", "=", filters.category);
     return await q.execute();
   }
 }
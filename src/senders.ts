@@ -0,0 +1,197 @@
+import type { Kysely } from "kysely";
+import type { ApprovedSender, Database } from "./db/schema";
+import { senderAuthPolicyFilter, type SenderAuthPolicy } from "./authresults";
+
+export type SenderAction = "allow" | "deny";
+
+/**
+ * Normalize a sender rule into a lowercase glob over the full address.
+ *
+ *   alice@example.com  → alice@example.com   (exact)
+ *   stripe.com         → *@stripe.com        (whole domain)
+ *   @stripe.com        → *@stripe.com
+ *   *.github.com       → *@*.github.com      (any subdomain)
+ *   *-bot@*.example.io → unchanged           (glob)
+ */
+export function normalizeSenderPattern(pattern: string): string {
+  const p = pattern.trim().toLowerCase();
+  if (p.startsWith("@")) return `*${p}`;
+  if (!p.includes("@")) return `*@${p}`;
+  return p;
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesSenderPattern(pattern: string, address: string): boolean {
+  const addr = address.toLowerCase();
+  if (!isGlob(pattern)) return pattern === addr;
+  return globToRegExp(pattern).test(addr);
+}
+
+/** Evaluate rules against an address. Any matching deny rule wins over allows. */
+export function evaluateSenderRules(
+  rules: Pick<ApprovedSender, "email" | "action">[],
+  address: string
+): { approved: boolean; rule: string | null } {
+  const matching = rules.filter((r) => matchesSenderPattern(r.email, address));
+  const deny = matching.find((r) => r.action === "deny");
+  if (deny) return { approved: false, rule: deny.email };
+  const allow = matching.find((r) => r.action === "allow");
+  return { approved: !!allow, rule: allow?.email ?? null };
+}
+
+/** Load the exact rule for this address plus every glob rule */
+async function loadRulesFor(
+  db: Kysely<Database>,
+  address: string
+): Promise<Pick<ApprovedSender, "email" | "action">[]> {
+  return db
+    .selectFrom("approved_senders")
+    .select(["email", "action"])
+    .where((eb) =>
+      eb.or([
+        eb("email", "=", address),
+        eb("email", "like", "%*%"),
+        eb("email", "like", "%?%"),
+      ])
+    )
+    .execute();
+}
+
+export async function isSenderApproved(
+  db: Kysely<Database>,
+  address: string
+): Promise<boolean> {
+  const normalized = address.toLowerCase();
+  const rules = await loadRulesFor(db, normalized);
+  return evaluateSenderRules(rules, normalized).approved;
+}
+
+/** Whether a deny rule matches the address */
+export async function isSenderDenied(
+  db: Kysely<Database>,
+  address: string
+): Promise<boolean> {
+  const normalized = address.toLowerCase();
+  const rules = await loadRulesFor(db, normalized);
+  return rules.some((r) => r.action === "deny" && matchesSenderPattern(r.email, normalized));
+}
+
+/**
+ * Add or update a sender rule. Allow rules retroactively approve pending
+ * messages they match (unless a deny rule also matches the sender, or the
+ * message fails the sender auth policy).
+ */
+export async function upsertSenderRule(
+  db: Kysely<Database>,
+  pattern: string,
+  name: string | null,
+  action: SenderAction,
+  authPolicy: SenderAuthPolicy = "off"
+): Promise<{ email: string; action: SenderAction; approved_count: number }> {
+  const normalized = normalizeSenderPattern(pattern);
+
+  await db
+    .insertInto("approved_senders")
+    .values({
+      email: normalized,
+      name,
+      action,
+      created_at: Date.now(),
+    })
+    .onConflict((oc) => oc.column("email").doUpdateSet({ name, action }))
+    .execute();
+
+  if (action === "deny") {
+    return { email: normalized, action, approved_count: 0 };
+  }
+
+  // Exact rules can be backfilled with a straight equality match
+  if (!isGlob(normalized)) {
+    const rules = await loadRulesFor(db, normalized);
+    if (!evaluateSenderRules(rules, normalized).approved) {
+      return { email: normalized, action, approved_count: 0 };
+    }
+    const result = await db
+      .updateTable("messages")
+      .set({ approved: 1 })
+      .where("from", "=", normalized)
+      .where("approved", "=", 0)
+      .where(senderAuthPolicyFilter(authPolicy))
+      .execute();
+    return {
+      email: normalized,
+      action,
+      approved_count: Number(result[0]?.numUpdatedRows ?? 0),
+    };
+  }
+
+  // Glob rules: evaluate each distinct pending sender against the full rule set
+  const pendingSenders = await db
+    .selectFrom("messages")
+    .select("from")
+    .distinct()
+    .where("approved", "=", 0)
+    .where("direction", "=", "inbound")
+    .execute();
+
+  const allRules = await db
+    .selectFrom("approved_senders")
+    .select(["email", "action"])
+    .execute();
+
+  const toApprove = pendingSenders
+    .map((m) => m.from)
+    .filter(
+      (from) =>
+        matchesSenderPattern(normalized, from) &&
+        evaluateSenderRules(allRules, from).approved
+    );
+
+  // D1 caps bound parameters per statement, so update in chunks
+  let approvedCount = 0;
+  for (let i = 0; i < toApprove.length; i += 50) {
+    const result = await db
+      .updateTable("messages")
+      .set({ approved: 1 })
+      .where("from", "in", toApprove.slice(i, i + 50))
+      .where("approved", "=", 0)
+      .where(senderAuthPolicyFilter(authPolicy))
+      .execute();
+    approvedCount += Number(result[0]?.numUpdatedRows ?? 0);
+  }
+
+  return { email: normalized, action, approved_count: approvedCount };
+}
+
+export async function removeSenderRule(
+  db: Kysely<Database>,
+  pattern: string
+): Promise<string> {
+  const normalized = normalizeSenderPattern(pattern);
+  await db
+    .deleteFrom("approved_senders")
+    .where("email", "=", normalized)
+    .execute();
+  return normalized;
+}
+
+export async function listSenderRules(
+  db: Kysely<Database>
+): Promise<ApprovedSender[]> {
+  return db
+    .selectFrom("approved_senders")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .execute();
+}
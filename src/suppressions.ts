@@ -0,0 +1,84 @@
+import type { Kysely } from "kysely";
+import type { Database, Suppression, SuppressionReason } from "./db/schema";
+import { parseAddressList } from "./mailboxes";
+
+/** Lowercased bare addresses from "Name <a@b>" / comma-separated values */
+function normalizeAddresses(addresses: string[]): string[] {
+  return [...new Set(parseAddressList(addresses.join(", ")))];
+}
+
+/** Suppressed entries among the given recipients */
+export async function findSuppressed(
+  db: Kysely<Database>,
+  addresses: string[]
+): Promise<Suppression[]> {
+  const candidates = normalizeAddresses(addresses);
+  if (candidates.length === 0) return [];
+
+  return db
+    .selectFrom("suppressions")
+    .selectAll()
+    .where("address", "in", candidates)
+    .execute();
+}
+
+/** Throw if any recipient is suppressed, naming each one and why */
+export async function assertNotSuppressed(
+  db: Kysely<Database>,
+  addresses: string[]
+): Promise<void> {
+  const suppressed = await findSuppressed(db, addresses);
+  if (suppressed.length > 0) {
+    const list = suppressed.map((s) => `${s.address} (${s.reason})`).join(", ");
+    throw new Error(`Recipients are on the suppression list: ${list}`);
+  }
+}
+
+/** Add (or update) a suppression. Returns the normalized address. */
+export async function suppressAddress(
+  db: Kysely<Database>,
+  address: string,
+  reason: SuppressionReason,
+  options: { detail?: string | null; messageId?: string | null } = {}
+): Promise<string> {
+  const [normalized] = normalizeAddresses([address]);
+  if (!normalized) throw new Error(`Invalid address: ${address}`);
+
+  const values = {
+    reason,
+    detail: options.detail ?? null,
+    message_id: options.messageId ?? null,
+  };
+  await db
+    .insertInto("suppressions")
+    .values({ address: normalized, ...values, created_at: Date.now() })
+    .onConflict((oc) => oc.column("address").doUpdateSet(values))
+    .execute();
+
+  return normalized;
+}
+
+export async function unsuppressAddress(
+  db: Kysely<Database>,
+  address: string
+): Promise<boolean> {
+  const result = await db
+    .deleteFrom("suppressions")
+    .where("address", "=", address.trim().toLowerCase())
+    .execute();
+  return Number(result[0]?.numDeletedRows ?? 0) > 0;
+}
+
+export async function listSuppressions(
+  db: Kysely<Database>,
+  options: { reason?: SuppressionReason; limit?: number; offset?: number } = {}
+): Promise<Suppression[]> {
+  let query = db
+    .selectFrom("suppressions")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(options.limit ?? 100)
+    .offset(options.offset ?? 0);
+  if (options.reason) query = query.where("reason", "=", options.reason);
+  return query.execute();
+}
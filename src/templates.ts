@@ -0,0 +1,488 @@
+import type { Kysely } from "kysely";
+import { z } from "zod";
+import type { Database, Template } from "./db/schema";
+import type { DraftParams } from "./drafts";
+import { escapeHtml } from "./html";
+import { sendBatch, type AttachmentInput, type SendEmailParams, type SendResult } from "./mail";
+import type { Env } from "./types";
+
+// ---------------------------------------------------------------------------
+// Template definitions
+// ---------------------------------------------------------------------------
+
+export const templateInputSchema = {
+  name: z.string().min(1).describe("Unique template name, e.g. 'onboarding'"),
+  subject: z.string().describe("Subject. Supports {{variables}}"),
+  body_text: z.string().optional().describe("Plain-text body. Supports {{variables}}"),
+  body_html: z.string().optional().describe("HTML body. Variable values are HTML-escaped"),
+  body_markdown: z.string().optional().describe("Markdown body, rendered to HTML on send"),
+  attachment_ids: z.array(z.string()).optional().describe("Existing attachment IDs to send with every use"),
+};
+
+export const templateInput = z.object(templateInputSchema);
+export type TemplateInput = z.infer<typeof templateInput>;
+
+/** Options accepted by send_email / create_draft to fill them from a template */
+export const templateUseSchema = {
+  template_id: z.string().optional().describe("Template ID or name to fill subject and body from"),
+  variables: z.record(z.string()).optional().describe("Values for the template's {{variables}}"),
+};
+
+export interface TemplateUse {
+  template_id?: string;
+  variables?: Record<string, string>;
+}
+
+/** Template with attachment_ids decoded and its {{variables}} listed */
+export interface ParsedTemplate extends Omit<Template, "attachment_ids"> {
+  attachment_ids: string[];
+  variables: string[];
+}
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Replace {{name}} placeholders; unknown names are left as-is */
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string>,
+  escape: (value: string) => string = (value) => value
+): string {
+  return template.replace(VARIABLE, (match, key: string) =>
+    key in vars ? escape(vars[key]) : match
+  );
+}
+
+function templateParts(t: Pick<Template, "subject" | "body_text" | "body_html" | "body_markdown">) {
+  return [t.subject, t.body_text, t.body_html, t.body_markdown].filter(
+    (part): part is string => part !== null
+  );
+}
+
+/** Distinct variable names used anywhere in a template, in order of appearance */
+function listVariables(parts: string[]): string[] {
+  const names = new Set<string>();
+  for (const part of parts) {
+    for (const match of part.matchAll(VARIABLE)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+export interface RenderedTemplate {
+  subject: string;
+  body?: string;
+  html?: string;
+  markdown?: string;
+  attachments: AttachmentInput[];
+}
+
+/** A template's attachments as send inputs */
+async function templateAttachments(
+  db: Kysely<Database>,
+  template: ParsedTemplate
+): Promise<AttachmentInput[] | { error: string }> {
+  if (template.attachment_ids.length === 0) return [];
+  const rows = await db
+    .selectFrom("attachments")
+    .select(["id", "filename"])
+    .where("id", "in", template.attachment_ids)
+    .execute();
+
+  const attachments: AttachmentInput[] = [];
+  for (const id of template.attachment_ids) {
+    const att = rows.find((row) => row.id === id);
+    if (!att) return { error: `Template attachment ${id} not found` };
+    attachments.push({ attachment_id: att.id, filename: att.filename ?? "attachment" });
+  }
+  return attachments;
+}
+
+/** Fill a loaded template's subject and bodies; every variable it uses is required */
+function fillTemplate(
+  template: ParsedTemplate,
+  variables: Record<string, string>
+): Omit<RenderedTemplate, "attachments"> | { error: string } {
+  const missing = template.variables.filter((name) => !(name in variables));
+  if (missing.length > 0) {
+    return { error: `Missing template variables: ${missing.join(", ")}` };
+  }
+
+  const fill = (part: string | null, escape?: (value: string) => string) =>
+    part === null ? undefined : renderTemplate(part, variables, escape);
+
+  return {
+    subject: renderTemplate(template.subject, variables),
+    body: fill(template.body_text),
+    html: fill(template.body_html, escapeHtml),
+    markdown: fill(template.body_markdown),
+  };
+}
+
+/**
+ * Fill a template with `variables`. Every variable the template uses is
+ * required; missing ones are reported together before anything is sent.
+ */
+export async function renderEmailTemplate(
+  db: Kysely<Database>,
+  idOrName: string,
+  variables: Record<string, string>
+): Promise<RenderedTemplate | { error: string }> {
+  const template = await getTemplate(db, idOrName);
+  if (!template) return { error: "Template not found" };
+
+  const filled = fillTemplate(template, variables);
+  if ("error" in filled) return filled;
+
+  const attachments = await templateAttachments(db, template);
+  if ("error" in attachments) return attachments;
+
+  return { ...filled, attachments };
+}
+
+/**
+ * Complete send parameters from `template_id` + `variables`. Fields given
+ * explicitly win over the template's; the template's attachments are sent
+ * ahead of any passed in.
+ */
+export async function applyTemplate(
+  db: Kysely<Database>,
+  params: Omit<SendEmailParams, "subject"> & { subject?: string } & TemplateUse
+): Promise<SendEmailParams | { error: string }> {
+  const { template_id, variables, ...rest } = params;
+  if (!template_id) {
+    if (rest.subject === undefined) return { error: "subject is required" };
+    return { ...rest, subject: rest.subject };
+  }
+
+  const rendered = await renderEmailTemplate(db, template_id, variables ?? {});
+  if ("error" in rendered) return rendered;
+
+  const hasBody =
+    rest.body !== undefined || rest.html !== undefined || rest.markdown !== undefined;
+  return {
+    ...rest,
+    subject: rest.subject ?? rendered.subject,
+    ...(hasBody
+      ? {}
+      : { body: rendered.body, html: rendered.html, markdown: rendered.markdown }),
+    attachments: [...rendered.attachments, ...(rest.attachments ?? [])],
+  };
+}
+
+/** Like applyTemplate, for a new draft. Drafts can't carry attachments yet. */
+export async function applyDraftTemplate(
+  db: Kysely<Database>,
+  params: DraftParams & TemplateUse
+): Promise<DraftParams | { error: string }> {
+  const { template_id, variables, ...rest } = params;
+  if (!template_id) return rest;
+
+  const rendered = await renderEmailTemplate(db, template_id, variables ?? {});
+  if ("error" in rendered) return rendered;
+  if (rendered.attachments.length > 0) {
+    return { error: "Template has attachments, which drafts don't support; use send_email" };
+  }
+
+  const hasBody =
+    rest.body_text !== undefined ||
+    rest.body_html !== undefined ||
+    rest.body_markdown !== undefined;
+  return {
+    ...rest,
+    subject: rest.subject ?? rendered.subject,
+    ...(hasBody
+      ? {}
+      : {
+          body_text: rendered.body,
+          body_html: rendered.html,
+          body_markdown: rendered.markdown,
+        }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mail merge
+// ---------------------------------------------------------------------------
+
+/**
+ * Most recipients in one send_batch call. Each recipient costs a handful of
+ * D1 queries (store, suppression and approval checks, delivery), which has
+ * to fit the Worker's subrequest limit of 1000 per invocation.
+ */
+export const MAX_BATCH_RECIPIENTS = 100;
+
+export const batchSendInputSchema = {
+  recipients: z
+    .array(
+      z.object({
+        to: z.union([z.string(), z.array(z.string())]).describe("Recipient address(es)"),
+        cc: z.union([z.string(), z.array(z.string())]).optional(),
+        bcc: z.union([z.string(), z.array(z.string())]).optional(),
+        variables: z.record(z.string()).optional().describe("Values for this recipient's {{variables}}"),
+      })
+    )
+    .min(1)
+    .max(MAX_BATCH_RECIPIENTS)
+    .describe("One entry per email; each gets its own thread"),
+  subject: z.string().optional().describe("Shared subject. Supports {{variables}}. Required unless template_id is given"),
+  body: z.string().optional().describe("Shared plain-text body. Supports {{variables}}"),
+  html: z.string().optional().describe("Shared HTML body. Variable values are HTML-escaped"),
+  markdown: z.string().optional().describe("Shared Markdown body, rendered to HTML"),
+  template_id: z.string().optional().describe("Template ID or name to use instead of a shared subject/body"),
+  mailbox: z.string().optional().describe("Send from this mailbox (id or address)"),
+  attachments: z
+    .array(
+      z.object({
+        content: z.string().optional().describe("Base64-encoded content"),
+        filename: z.string(),
+        content_type: z.string().optional(),
+        attachment_id: z.string().optional().describe("Existing attachment ID"),
+      })
+    )
+    .optional()
+    .describe("Attachments sent to every recipient"),
+};
+
+export const batchSendInput = z.object(batchSendInputSchema);
+export type BatchSendInput = z.infer<typeof batchSendInput>;
+
+/** Per-recipient outcome of a batch send */
+export type BatchSendResult = { to: string | string[] } & (SendResult | { error: string });
+
+/** Fill the shared subject and body with one recipient's variables */
+function mergeInline(
+  input: BatchSendInput,
+  variables: Record<string, string>
+): Omit<RenderedTemplate, "attachments"> | { error: string } {
+  if (input.subject === undefined) return { error: "subject is required" };
+
+  const parts = [input.subject, input.body, input.html, input.markdown].filter(
+    (part): part is string => part !== undefined
+  );
+  const missing = listVariables(parts).filter((name) => !(name in variables));
+  if (missing.length > 0) {
+    return { error: `Missing template variables: ${missing.join(", ")}` };
+  }
+
+  const fill = (part: string | undefined, escape?: (value: string) => string) =>
+    part === undefined ? undefined : renderTemplate(part, variables, escape);
+  return {
+    subject: renderTemplate(input.subject, variables),
+    body: fill(input.body),
+    html: fill(input.html, escapeHtml),
+    markdown: fill(input.markdown),
+  };
+}
+
+/**
+ * Mail merge: render the shared subject/body (or template) for every
+ * recipient and send the lot with sendBatch. A recipient with missing
+ * variables gets an error entry; the others still go out. Results are in
+ * recipient order, with totals (errors count as failed).
+ * Recipients OUTBOUND_APPROVAL_POLICY holds are "pending_outbound".
+ */
+export async function sendMailMerge(
+  env: Env,
+  db: Kysely<Database>,
+  input: BatchSendInput
+): Promise<{
+  sent: number;
+  retrying: number;
+  pending_outbound: number;
+  failed: number;
+  results: BatchSendResult[];
+}> {
+  const results: BatchSendResult[] = new Array(input.recipients.length);
+  const messages: { index: number; params: SendEmailParams }[] = [];
+
+  // The template and its attachments are loaded once for every recipient;
+  // attachments are the same for all of them, so they're stored once too
+  let template: ParsedTemplate | null = null;
+  let shared: AttachmentInput[] = input.attachments ?? [];
+  if (input.template_id) {
+    template = await getTemplate(db, input.template_id);
+    const attachments = template
+      ? await templateAttachments(db, template)
+      : { error: "Template not found" };
+    if ("error" in attachments) {
+      const failed = input.recipients.map((r) => ({ to: r.to, error: attachments.error }));
+      return { sent: 0, retrying: 0, pending_outbound: 0, failed: failed.length, results: failed };
+    }
+    shared = [...attachments, ...shared];
+  }
+
+  for (const [index, recipient] of input.recipients.entries()) {
+    const variables = recipient.variables ?? {};
+    const merged = template ? fillTemplate(template, variables) : mergeInline(input, variables);
+    if ("error" in merged) {
+      results[index] = { to: recipient.to, error: merged.error };
+      continue;
+    }
+
+    messages.push({
+      index,
+      params: {
+        to: recipient.to,
+        cc: recipient.cc,
+        bcc: recipient.bcc,
+        subject: merged.subject,
+        body: merged.body,
+        html: merged.html,
+        markdown: merged.markdown,
+        mailbox: input.mailbox,
+      },
+    });
+  }
+
+  const sent = await sendBatch(env, db, messages.map((m) => m.params), shared);
+  for (const [i, { index, params }] of messages.entries()) {
+    results[index] = { to: params.to, ...sent[i] };
+  }
+
+  const counts = { sent: 0, retrying: 0, pending_outbound: 0, failed: 0 };
+  for (const result of results) counts["error" in result ? "failed" : result.status]++;
+  return { ...counts, results };
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+function parseTemplate(row: Template): ParsedTemplate {
+  return {
+    ...row,
+    attachment_ids: row.attachment_ids ? JSON.parse(row.attachment_ids) : [],
+    variables: listVariables(templateParts(row)),
+  };
+}
+
+/** Check a template's combined fields before they are written */
+async function validateTemplate(
+  db: Kysely<Database>,
+  t: Pick<Template, "body_text" | "body_html" | "body_markdown">,
+  attachmentIds: string[]
+): Promise<void> {
+  if (t.body_text === null && t.body_html === null && t.body_markdown === null) {
+    throw new Error("One of body_text, body_html or body_markdown is required");
+  }
+  if (t.body_html !== null && t.body_markdown !== null) {
+    throw new Error("Pass either body_html or body_markdown, not both");
+  }
+  for (const id of attachmentIds) {
+    const att = await db
+      .selectFrom("attachments")
+      .select("id")
+      .where("id", "=", id)
+      .executeTakeFirst();
+    if (!att) throw new Error(`Attachment ${id} not found`);
+  }
+}
+
+async function assertNameFree(
+  db: Kysely<Database>,
+  name: string,
+  exceptId?: string
+): Promise<void> {
+  let query = db.selectFrom("templates").select("id").where("name", "=", name);
+  if (exceptId) query = query.where("id", "!=", exceptId);
+  if (await query.executeTakeFirst()) throw new Error(`Template "${name}" already exists`);
+}
+
+export async function listTemplates(db: Kysely<Database>): Promise<ParsedTemplate[]> {
+  const rows = await db.selectFrom("templates").selectAll().orderBy("name", "asc").execute();
+  return rows.map(parseTemplate);
+}
+
+/** Look up a template by id or name */
+export async function getTemplate(
+  db: Kysely<Database>,
+  idOrName: string
+): Promise<ParsedTemplate | null> {
+  const row = await db
+    .selectFrom("templates")
+    .selectAll()
+    .where((eb) => eb.or([eb("id", "=", idOrName), eb("name", "=", idOrName)]))
+    .executeTakeFirst();
+  return row ? parseTemplate(row) : null;
+}
+
+export async function createTemplate(
+  db: Kysely<Database>,
+  input: TemplateInput
+): Promise<ParsedTemplate> {
+  const fields = {
+    body_text: input.body_text ?? null,
+    body_html: input.body_html ?? null,
+    body_markdown: input.body_markdown ?? null,
+  };
+  await validateTemplate(db, fields, input.attachment_ids ?? []);
+  await assertNameFree(db, input.name);
+
+  const now = Date.now();
+  const id = crypto.randomUUID();
+
+  await db
+    .insertInto("templates")
+    .values({
+      id,
+      name: input.name,
+      subject: input.subject,
+      ...fields,
+      attachment_ids: input.attachment_ids?.length ? JSON.stringify(input.attachment_ids) : null,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+
+  return (await getTemplate(db, id))!;
+}
+
+export async function updateTemplate(
+  db: Kysely<Database>,
+  idOrName: string,
+  input: Partial<TemplateInput>
+): Promise<ParsedTemplate | null> {
+  const existing = await getTemplate(db, idOrName);
+  if (!existing) return null;
+
+  await validateTemplate(
+    db,
+    {
+      body_text: input.body_text !== undefined ? input.body_text : existing.body_text,
+      body_html: input.body_html !== undefined ? input.body_html : existing.body_html,
+      body_markdown:
+        input.body_markdown !== undefined ? input.body_markdown : existing.body_markdown,
+    },
+    input.attachment_ids ?? []
+  );
+  if (input.name !== undefined) await assertNameFree(db, input.name, existing.id);
+
+  const updates: Record<string, unknown> = { updated_at: Date.now() };
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.subject !== undefined) updates.subject = input.subject;
+  if (input.body_text !== undefined) updates.body_text = input.body_text;
+  if (input.body_html !== undefined) updates.body_html = input.body_html;
+  if (input.body_markdown !== undefined) updates.body_markdown = input.body_markdown;
+  if (input.attachment_ids !== undefined) {
+    updates.attachment_ids = input.attachment_ids.length
+      ? JSON.stringify(input.attachment_ids)
+      : null;
+  }
+
+  await db.updateTable("templates").set(updates).where("id", "=", existing.id).execute();
+  return getTemplate(db, existing.id);
+}
+
+export async function deleteTemplate(
+  db: Kysely<Database>,
+  idOrName: string
+): Promise<boolean> {
+  const result = await db
+    .deleteFrom("templates")
+    .where((eb) => eb.or([eb("id", "=", idOrName), eb("name", "=", idOrName)]))
+    .execute();
+  return Number(result[0]?.numDeletedRows ?? 0) > 0;
+}
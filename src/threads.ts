@@ -0,0 +1,239 @@
+import { sql, type Compilable, type Kysely } from "kysely";
+import { executeBatch } from "./db/client";
+import type { Database, Thread } from "./db/schema";
+import { listOwnAddresses, parseAddressList, parsePlusAddress } from "./mailboxes";
+import type { Env } from "./types";
+
+// ---------------------------------------------------------------------------
+// Subject / participant fallback
+// ---------------------------------------------------------------------------
+
+/** Only threads active within this window are considered for a fallback match */
+const FALLBACK_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Most recent candidate threads compared per inbound message */
+const FALLBACK_CANDIDATES = 50;
+
+/** Older threads given a normalized_subject per inbound message */
+const BACKFILL_BATCH = 200;
+
+/**
+ * Reply / forward prefixes in common locales (Re, Fwd, Fw, AW, WG, SV, VS,
+ * Antw, Doorst, Rif, TR, RE[2]), optionally counted ("Re[2]:") or bracketed
+ */
+const SUBJECT_PREFIX =
+  /^\s*(?:\[[^\]]*\]\s*)?(?:re|fwd?|aw|wg|sv|vs|antw|doorst|rif|tr)(?:\s*\[\d+\]|\s*\(\d+\))?\s*:\s*/i;
+
+/**
+ * Subject with reply/forward prefixes removed, whitespace collapsed and
+ * lowercased, and whether any prefix was present
+ */
+export function normalizeSubject(subject: string): { subject: string; prefixed: boolean } {
+  let rest = subject;
+  let prefixed = false;
+  for (let match = rest.match(SUBJECT_PREFIX); match; match = rest.match(SUBJECT_PREFIX)) {
+    rest = rest.slice(match[0].length);
+    prefixed = true;
+  }
+  return { subject: rest.replace(/\s+/g, " ").trim().toLowerCase(), prefixed };
+}
+
+/**
+ * Find the thread an inbound reply belongs to when its In-Reply-To and
+ * References don't name a message we have. Only replies (subjects with a
+ * Re:/Fwd:/AW:/SV:... prefix) are matched, against recently active threads
+ * with the same normalized subject that share a participant other than us.
+ */
+export async function findFallbackThread(
+  env: Env,
+  db: Kysely<Database>,
+  inbound: { subject: string; from: string; to: string; cc: string | null },
+  now = Date.now()
+): Promise<string | null> {
+  const { subject, prefixed } = normalizeSubject(inbound.subject);
+  if (!prefixed || !subject) return null;
+
+  const own = await listOwnAddresses(env, db);
+  const participants = new Set(
+    [inbound.from, ...parseAddressList(inbound.to), ...parseAddressList(inbound.cc)]
+      .map((addr) => parsePlusAddress(addr).base)
+      .filter((addr) => !own.has(addr))
+  );
+  if (participants.size === 0) return null;
+
+  const since = now - FALLBACK_WINDOW_MS;
+  await backfillNormalizedSubjects(env, db, since);
+
+  const candidates = await db
+    .selectFrom("threads")
+    .select("id")
+    .where("normalized_subject", "=", subject)
+    .where("last_message_at", ">=", since)
+    .orderBy("last_message_at", "desc")
+    .limit(FALLBACK_CANDIDATES)
+    .execute();
+  if (candidates.length === 0) return null;
+
+  const messages = await db
+    .selectFrom("messages")
+    .select(["thread_id", "from", "to", "cc"])
+    .where("thread_id", "in", candidates.map((t) => t.id))
+    .execute();
+  const overlapping = new Set(
+    messages
+      .filter((m) =>
+        [m.from, ...parseAddressList(m.to), ...parseAddressList(m.cc)].some((addr) =>
+          participants.has(parsePlusAddress(addr).base)
+        )
+      )
+      .map((m) => m.thread_id)
+  );
+
+  return candidates.find((t) => overlapping.has(t.id))?.id ?? null;
+}
+
+/**
+ * Fill in normalized_subject for threads created before the column existed.
+ * Only threads inside the fallback window can match, so once those are done
+ * this is a single indexed lookup that finds nothing.
+ */
+async function backfillNormalizedSubjects(
+  env: Env,
+  db: Kysely<Database>,
+  since: number
+): Promise<void> {
+  const threads = await db
+    .selectFrom("threads")
+    .select(["id", "subject"])
+    .where("normalized_subject", "is", null)
+    .where("last_message_at", ">=", since)
+    .limit(BACKFILL_BATCH)
+    .execute();
+  if (threads.length === 0) return;
+
+  await executeBatch(
+    env.DB,
+    threads.map((t) =>
+      db
+        .updateTable("threads")
+        .set({ normalized_subject: normalizeSubject(t.subject).subject })
+        .where("id", "=", t.id)
+    )
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Merge / split
+// ---------------------------------------------------------------------------
+
+/** Recompute a thread's message_count and last_message_at from its messages */
+function recalculateThread(db: Kysely<Database>, threadId: string): Compilable {
+  return db
+    .updateTable("threads")
+    .set({
+      message_count: sql<number>`(select count(*) from messages where thread_id = ${threadId})`,
+      last_message_at: sql<number>`coalesce((select max(created_at) from messages where thread_id = ${threadId}), last_message_at)`,
+    })
+    .where("id", "=", threadId);
+}
+
+export async function getThread(
+  db: Kysely<Database>,
+  id: string
+): Promise<Thread | null> {
+  return (
+    (await db
+      .selectFrom("threads")
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst()) ?? null
+  );
+}
+
+/**
+ * Move every message (and draft) of the source threads into `targetId` and
+ * delete the emptied threads. Runs as one D1 batch.
+ */
+export async function mergeThreads(
+  env: Env,
+  db: Kysely<Database>,
+  targetId: string,
+  sourceIds: string[]
+): Promise<Thread | { error: string }> {
+  const sources = [...new Set(sourceIds)].filter((id) => id !== targetId);
+  if (sources.length === 0) return { error: "No other threads to merge" };
+
+  const found = await db
+    .selectFrom("threads")
+    .select("id")
+    .where("id", "in", [targetId, ...sources])
+    .execute();
+  const missing = [targetId, ...sources].filter((id) => !found.some((t) => t.id === id));
+  if (missing.length > 0) return { error: `Thread not found: ${missing.join(", ")}` };
+
+  await executeBatch(env.DB, [
+    db.updateTable("messages").set({ thread_id: targetId }).where("thread_id", "in", sources),
+    db.updateTable("drafts").set({ thread_id: targetId }).where("thread_id", "in", sources),
+    db.deleteFrom("threads").where("id", "in", sources),
+    recalculateThread(db, targetId),
+  ]);
+
+  return (await getThread(db, targetId))!;
+}
+
+/**
+ * Move the given messages out of a thread into a new thread, named after the
+ * earliest of them. Both threads' counts are recalculated.
+ */
+export async function splitThread(
+  env: Env,
+  db: Kysely<Database>,
+  threadId: string,
+  messageIds: string[]
+): Promise<{ thread: Thread; new_thread: Thread } | { error: string }> {
+  const ids = [...new Set(messageIds)];
+  if (ids.length === 0) return { error: "No messages to split off" };
+
+  const thread = await getThread(db, threadId);
+  if (!thread) return { error: "Thread not found" };
+
+  const moving = await db
+    .selectFrom("messages")
+    .select(["id", "subject", "created_at"])
+    .where("thread_id", "=", threadId)
+    .where("id", "in", ids)
+    .orderBy("created_at", "asc")
+    .execute();
+  const notInThread = ids.filter((id) => !moving.some((m) => m.id === id));
+  if (notInThread.length > 0) {
+    return { error: `Messages not in this thread: ${notInThread.join(", ")}` };
+  }
+  const total = await db
+    .selectFrom("messages")
+    .select((eb) => eb.fn.countAll<number>().as("count"))
+    .where("thread_id", "=", threadId)
+    .executeTakeFirstOrThrow();
+  if (moving.length === Number(total.count)) {
+    return { error: "Cannot split off every message of a thread" };
+  }
+
+  const newId = crypto.randomUUID();
+  await executeBatch(env.DB, [
+    db.insertInto("threads").values({
+      id: newId,
+      subject: moving[0].subject,
+      normalized_subject: normalizeSubject(moving[0].subject).subject,
+      last_message_at: moving[moving.length - 1].created_at,
+      message_count: moving.length,
+      created_at: Date.now(),
+    }),
+    db.updateTable("messages").set({ thread_id: newId }).where("id", "in", ids),
+    recalculateThread(db, threadId),
+    recalculateThread(db, newId),
+  ]);
+
+  return {
+    thread: (await getThread(db, threadId))!,
+    new_thread: (await getThread(db, newId))!,
+  };
+}
@@ -0,0 +1,71 @@
+/** Offset of `timeZone` from UTC at the given instant, in ms */
+function timeZoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - utcMs;
+}
+
+/**
+ * Wall-clock time in an IANA time zone → epoch ms. Throws a RangeError for
+ * unknown zones.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): number {
+  const naive = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = timeZoneOffset(naive, timeZone);
+  const ms = naive - offset;
+  // Re-check once in case the guess landed across a DST transition
+  const corrected = timeZoneOffset(ms, timeZone);
+  return corrected === offset ? ms : naive - corrected;
+}
+
+/**
+ * Parse a timestamp given as epoch ms or an ISO 8601 string. An ISO string
+ * without a UTC offset ("2026-10-19T09:00") is read as wall-clock time in
+ * `timeZone` (an IANA name such as "America/New_York"), defaulting to UTC.
+ */
+export function parseTimestamp(value: number | string, timeZone?: string): number {
+  if (typeof value === "number") return value;
+
+  const local = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/);
+  if (local) {
+    const [, y, mo, d, h, mi, s] = local;
+    const parts = [+y, +mo, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0)] as const;
+    if (!timeZone) return Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+    try {
+      return zonedTimeToUtc(...parts, timeZone);
+    } catch {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+  }
+
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid date: ${value}`);
+  return ms;
+}
@@ -49,11 +49,23 @@ export interface Env {
   ATTACHMENTS: R2Bucket;
   MCP_OBJECT: DurableObjectNamespace;
   API_KEY: string;
+  /**
+   * Key for approving held outbound mail and editing the outbound allowlist.
+   * Must differ from API_KEY, which the MCP agent holds.
+   */
+  APPROVAL_API_KEY?: string;
   /** Cloudflare Email Service binding (send_email in wrangler config) */
   EMAIL?: EmailBinding;
   /** Resend API key — required when EMAIL_PROVIDER is "resend" */
   RESEND_API_KEY?: string;
-  /** "cloudflare" | "resend" — auto-detected from bindings if omitted */
+  /** Postmark server token — enables the "postmark" provider */
+  POSTMARK_SERVER_TOKEN?: string;
+  /** Postmark message stream (default "outbound") */
+  POSTMARK_MESSAGE_STREAM?: string;
+  /**
+   * "cloudflare" | "resend" | "postmark", or a comma-separated failover order
+   * ("resend,postmark"). Every configured provider is used if omitted.
+   */
   EMAIL_PROVIDER?: string;
   FROM_EMAIL: string;
   FROM_NAME: string;
@@ -62,7 +74,16 @@ export interface Env {
   RESEND_FROM_EMAIL?: string;
   RESEND_FROM_NAME?: string;
   RESEND_REPLY_TO_EMAIL?: string;
+  /** "off" | "fail" | "strict" — how SPF/DKIM/DMARC verdicts gate sender auto-approval */
+  SENDER_AUTH_POLICY?: string;
+  /** authserv-id of the Authentication-Results header to trust (default "mx.cloudflare.net") */
+  AUTHSERV_ID?: string;
+  /** "off" | "unknown" | "all" — which outbound mail waits for approval over the REST API */
+  OUTBOUND_APPROVAL_POLICY?: string;
+  /** Optional queue for delayed send retries (falls back to the per-minute cron) */
+  SEND_QUEUE?: Queue<{ message_id: string }>;
   WEBHOOK_URL?: string;
   WEBHOOK_SECRET?: string;
   RESEND_WEBHOOK_SECRET?: string;
+  POSTMARK_WEBHOOK_SECRET?: string;
 }
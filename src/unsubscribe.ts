@@ -0,0 +1,158 @@
+import type { Kysely } from "kysely";
+import type { Database } from "./db/schema";
+import { sendEmail } from "./mail";
+import {
+  fromDomain,
+  getAuthservId,
+  isAlignedDomain,
+  parseDkimResults,
+  trustedAuthenticationResults,
+} from "./authresults";
+import type { Env } from "./types";
+
+export interface UnsubscribeResult {
+  method: "one-click" | "mailto" | "manual";
+  target: string;
+  /** HTTP status for one-click, outbound message id for mailto */
+  status?: number;
+  message_id?: string;
+  /** Why a one-click URI was left for a human ("manual") */
+  reason?: string;
+}
+
+/** Split a List-Unsubscribe value ("<https://…>, <mailto:…>") into its URIs */
+export function parseListUnsubscribe(value: string): string[] {
+  return [...value.matchAll(/<([^>]+)>/g)].map((m) => m[1].trim());
+}
+
+/** Value of one tag ("d", "h", "b", ...) of a DKIM-Signature header */
+function dkimTag(signature: string, tag: string): string | null {
+  const match = signature.match(new RegExp(`(?:^|;)\\s*${tag}\\s*=([^;]*)`, "i"));
+  return match ? match[1].replace(/\s+/g, "") : null;
+}
+
+/**
+ * RFC 8058 only allows one-click when a valid DKIM signature covers both
+ * List-Unsubscribe headers; otherwise a forged header could make us POST to
+ * any URL. The signature whose h= covers them must itself be the one our
+ * receiving MTA verified (matched on header.d and header.b), and its d= must
+ * align with the From domain, so a sender can't vouch with its own key.
+ */
+function isOneClickSigned(
+  env: Env,
+  headers: { key: string; value: string }[]
+): boolean {
+  const results = trustedAuthenticationResults(headers, getAuthservId(env));
+  const from = fromDomain(headers);
+  if (!results || !from) return false;
+  const passes = parseDkimResults(results).filter((r) => r.result === "pass" && r.domain);
+
+  const signatures = headers
+    .filter((h) => h.key.toLowerCase() === "dkim-signature")
+    .map((h) => ({
+      domain: dkimTag(h.value, "d")?.toLowerCase() ?? null,
+      b: dkimTag(h.value, "b") ?? "",
+      signed: (dkimTag(h.value, "h") ?? "").toLowerCase().split(":"),
+    }));
+
+  return signatures.some((sig) => {
+    if (!sig.domain || !isAlignedDomain(sig.domain, from)) return false;
+    if (!sig.signed.includes("list-unsubscribe") || !sig.signed.includes("list-unsubscribe-post")) {
+      return false;
+    }
+    // header.b (a prefix of b=) says which signature passed; without it the
+    // domain only identifies the signature if it signed once
+    const sameDomain = signatures.filter((other) => other.domain === sig.domain).length;
+    return passes.some(
+      (r) =>
+        r.domain === sig.domain &&
+        (r.signature ? sig.b.startsWith(r.signature) : sameDomain === 1)
+    );
+  });
+}
+
+/**
+ * Unsubscribe from the list a stored message came from. Prefers RFC 8058
+ * one-click (POST "List-Unsubscribe=One-Click" to the https URI), then a
+ * mailto: unsubscribe sent from the mailbox the message arrived on. An https
+ * URI without one-click support, or whose one-click headers aren't DKIM
+ * signed, is returned for a human to open instead — fetching it could have
+ * side effects we can't confirm.
+ */
+export async function unsubscribe(
+  env: Env,
+  db: Kysely<Database>,
+  messageId: string
+): Promise<UnsubscribeResult | { error: string }> {
+  const msg = await db
+    .selectFrom("messages")
+    .select(["headers", "mailbox_id"])
+    .where("id", "=", messageId)
+    .where("approved", "=", 1)
+    .executeTakeFirst();
+  if (!msg) return { error: "Message not found" };
+
+  const headers: { key: string; value: string }[] = msg.headers
+    ? JSON.parse(msg.headers)
+    : [];
+  const header = (name: string) =>
+    headers.find((h) => h.key.toLowerCase() === name)?.value;
+
+  const listUnsubscribe = header("list-unsubscribe");
+  if (!listUnsubscribe) return { error: "Message has no List-Unsubscribe header" };
+
+  const uris = parseListUnsubscribe(listUnsubscribe);
+  const https = uris.find((u) => u.toLowerCase().startsWith("https://"));
+  const mailto = uris.find((u) => u.toLowerCase().startsWith("mailto:"));
+  const oneClick = /list-unsubscribe=one-click/i.test(header("list-unsubscribe-post") ?? "");
+
+  if (https && oneClick) {
+    if (!isOneClickSigned(env, headers)) {
+      return {
+        method: "manual",
+        target: https,
+        reason: "List-Unsubscribe is not covered by a passing DKIM signature",
+      };
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(https, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "List-Unsubscribe=One-Click",
+        redirect: "manual",
+      });
+    } catch (err) {
+      return { error: `One-click unsubscribe failed: ${(err as Error).message}` };
+    }
+    if (res.status >= 400) {
+      return { error: `One-click unsubscribe failed: ${res.status} ${res.statusText}` };
+    }
+    return { method: "one-click", target: https, status: res.status };
+  }
+
+  if (mailto) {
+    let result;
+    try {
+      const url = new URL(mailto);
+      result = await sendEmail(env, db, {
+        to: decodeURIComponent(url.pathname),
+        subject: url.searchParams.get("subject") ?? "unsubscribe",
+        body: url.searchParams.get("body") ?? "unsubscribe",
+        mailbox: msg.mailbox_id ?? undefined,
+      });
+    } catch (err) {
+      // Malformed mailto: URI, or a send refused up front (e.g. suppressed recipient)
+      return { error: `Unsubscribe email failed: ${(err as Error).message}` };
+    }
+    if (result.status === "failed") {
+      return { error: `Unsubscribe email failed: ${result.last_error}` };
+    }
+    return { method: "mailto", target: mailto, message_id: result.dbId };
+  }
+
+  if (https) return { method: "manual", target: https };
+
+  return { error: "No supported unsubscribe method" };
+}